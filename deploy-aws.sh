@@ -44,7 +44,7 @@ if [ ! -f ".env" ]; then
     echo "⚠️  .env file not found!"
     echo "Please create .env file with your credentials"
     echo "Example:"
-    cat .env.example
+    cat env.example
     exit 1
 fi
 
@@ -0,0 +1,11 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/src"],
+  testMatch: ["**/*.spec.ts"],
+  setupFiles: ["<rootDir>/jest.setup.js"],
+  transform: {
+    // Jest runs CommonJS; ts-jest does not support tsconfig.json's Node16 module setting
+    "^.+\\.ts$": ["ts-jest", { tsconfig: { module: "commonjs", moduleResolution: "node10" } }],
+  },
+};
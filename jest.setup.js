@@ -0,0 +1,17 @@
+const os = require("os");
+const path = require("path");
+
+// Config is parsed when a module first imports it - give unit specs a valid environment.
+// e2e.spec.ts sets its own values before loading the bot.
+Object.assign(process.env, {
+  TELEGRAM_BOT_TOKEN: "test",
+  OPENAI_API_KEY: "test",
+  CLICKUP_API_KEY: "test",
+  CLICKUP_TEAM_ID: "9012345678",
+  ADMIN_TELEGRAM_IDS: "1",
+  SUPABASE_URL: "http://127.0.0.1",
+  SUPABASE_SERVICE_ROLE_KEY: "test",
+  TIMEZONE: "Europe/Kyiv",
+  BOT_LOG_PATH: path.join(os.tmpdir(), "botoxclickup-test.log"),
+  DOTENV_CONFIG_QUIET: "true",
+});
@@ -1,4 +1,4 @@
-import { config } from "../src/config/config";
+import { clickupClient } from "../src/clickup/client";
 import departments from "../src/config/departments.json";
 
 const MARKETING_SPACE_ID = "90124836149";
@@ -17,24 +17,6 @@ interface Task {
   [key: string]: any;
 }
 
-const fetchClickUpAPI = async (endpoint: string): Promise<any> => {
-  const url = `https://api.clickup.com/api/v2${endpoint}`;
-
-  const response = await fetch(url, {
-    headers: {
-      Authorization: config.clickup.apiKey,
-      "Content-Type": "application/json",
-    },
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`ClickUp API error ${response.status}: ${text}`);
-  }
-
-  return response.json();
-};
-
 const main = async () => {
   console.log("Analyzing all marketing tasks via ClickUp REST API...\n");
 
@@ -53,9 +35,10 @@ const main = async () => {
     for (const listId of listIds) {
       console.log(`Fetching tasks from list ${listId}...`);
 
-      const response = await fetchClickUpAPI(
-        `/list/${listId}/task?archived=false&subtasks=true`
-      );
+      const response = await clickupClient.get(`/list/${listId}/task`, {
+        archived: false,
+        subtasks: true,
+      });
 
       const tasks: Task[] = response.tasks || [];
       console.log(`  Found ${tasks.length} active tasks`);
@@ -74,9 +57,10 @@ const main = async () => {
       }
 
       // Also check archived tasks
-      const archivedResponse = await fetchClickUpAPI(
-        `/list/${listId}/task?archived=true&subtasks=true`
-      );
+      const archivedResponse = await clickupClient.get(`/list/${listId}/task`, {
+        archived: true,
+        subtasks: true,
+      });
 
       const archivedTasks: Task[] = archivedResponse.tasks || [];
       console.log(`  Found ${archivedTasks.length} archived tasks\n`);
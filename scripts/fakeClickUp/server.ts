@@ -0,0 +1,666 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { DateTime } from "luxon";
+import { config } from "../../src/config/config";
+import configMembers from "../../src/config/members.json";
+
+/**
+ * Offline stand-in for the ClickUp REST API v2, seeded from JSON fixtures.
+ * Covers the endpoints the bot reads: team/list/task tasks, time entries, task comments,
+ * workspace members and the space/folder/list hierarchy. Writes (task create/update,
+ * comments) change the in-memory state only.
+ *
+ * Point the bot at it with CLICKUP_API_BASE_URL=http://127.0.0.1:<port>/api/v2.
+ * Dates in fixtures may be relative ("now-3d", "today+12h") and are resolved
+ * against `now` in config.timezone, so a frozen clock gives stable overdue/due-today results.
+ *
+ * Usage: ts-node scripts/fakeClickUp/server.ts [port] [fixtures dir]
+ */
+
+const DEFAULT_FIXTURES_DIR = path.join(__dirname, "fixtures");
+const PAGE_SIZE = 100;
+
+const PRIORITIES: Record<number, { priority: string; color: string }> = {
+  1: { priority: "urgent", color: "#f50000" },
+  2: { priority: "high", color: "#f8ae00" },
+  3: { priority: "normal", color: "#6fddff" },
+  4: { priority: "low", color: "#d8d8d8" },
+};
+
+type FakeStatus = { status: string; type: string; color: string; orderindex: number };
+type FakeList = { id: string; name: string };
+type FakeFolder = { id: string; name: string; lists: FakeList[] };
+type FakeSpace = { id: string; name: string; statuses: FakeStatus[]; folders: FakeFolder[]; lists: FakeList[] };
+type FakeMember = { id: number; username: string; email?: string };
+type FakeCustomField = {
+  id: string;
+  name: string;
+  type: string;
+  type_config?: { options?: Array<{ id: string; name: string; orderindex: number }>; [key: string]: unknown };
+};
+
+export type FakeClickUpState = {
+  team: { id: string; name: string };
+  members: FakeMember[];
+  spaces: FakeSpace[];
+  customFields: FakeCustomField[];
+  tasks: any[];
+  timeEntries: any[];
+  comments: any[];
+};
+
+export type FakeClickUpServer = {
+  url: string;
+  state: FakeClickUpState;
+  close: () => Promise<void>;
+};
+
+const readJson = (dir: string, file: string): any => JSON.parse(fs.readFileSync(path.join(dir, file), "utf-8"));
+
+/**
+ * "now", "today", optionally followed by +/-N(d|h|m). Anything else is passed through.
+ */
+const resolveDate = (value: unknown, now: DateTime): string | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const match = /^(now|today)(?:([+-])(\d+)([dhm]))?$/.exec(String(value));
+  if (!match) {
+    return String(value);
+  }
+  let date = match[1] === "today" ? now.startOf("day") : now;
+  if (match[2]) {
+    const unit = { d: "days", h: "hours", m: "minutes" }[match[4] as "d" | "h" | "m"];
+    const amount = Number(match[3]) * (match[2] === "-" ? -1 : 1);
+    date = date.plus({ [unit]: amount });
+  }
+  return String(date.toMillis());
+};
+
+const findListLocation = (spaces: FakeSpace[], listId: string) => {
+  for (const space of spaces) {
+    const folderless = space.lists.find((list) => list.id === listId);
+    if (folderless) {
+      return { space, folder: null, list: folderless };
+    }
+    for (const folder of space.folders) {
+      const list = folder.lists.find((item) => item.id === listId);
+      if (list) {
+        return { space, folder, list };
+      }
+    }
+  }
+  return null;
+};
+
+const toTag = (name: string) => ({ name, tag_fg: "#ffffff", tag_bg: "#7b68ee", creator: 0 });
+
+/**
+ * Fixture values are plain ("Instagram", 500); ClickUp stores drop_down values as the
+ * option orderindex and labels as option ids. Unset fields come back without `value`.
+ */
+const toCustomFields = (fields: FakeCustomField[], values: Record<string, unknown> = {}) =>
+  fields.map((field) => {
+    const raw = values[field.name];
+    if (raw === undefined || raw === null) {
+      return { ...field };
+    }
+    const options = field.type_config?.options ?? [];
+    switch (field.type) {
+      case "drop_down":
+        return { ...field, value: options.find((option) => option.name === raw)?.orderindex ?? null };
+      case "labels":
+        return {
+          ...field,
+          value: (raw as string[]).map((name) => options.find((option) => option.name === name)?.id).filter(Boolean),
+        };
+      case "number":
+      case "currency":
+        return { ...field, value: String(raw) };
+      default:
+        return { ...field, value: raw };
+    }
+  });
+
+const toAssignee = (members: FakeMember[], id: number) => {
+  const member = members.find((item) => item.id === id);
+  return { id, username: member?.username ?? String(id), email: member?.email ?? "", color: "", initials: "" };
+};
+
+/**
+ * Expand compact fixture tasks into the shape ClickUp returns.
+ */
+const normalizeTask = (raw: any, state: Omit<FakeClickUpState, "tasks" | "timeEntries" | "comments">, now: DateTime): any => {
+  const location = findListLocation(state.spaces, raw.list_id);
+  if (!location) {
+    throw new Error(`Fixture task ${raw.id} references unknown list ${raw.list_id}`);
+  }
+  const { space, folder, list } = location;
+  const status = space.statuses.find((item) => item.status === raw.status);
+  if (!status) {
+    throw new Error(`Fixture task ${raw.id} has status "${raw.status}" not defined in space ${space.name}`);
+  }
+  const priority = raw.priority ? PRIORITIES[raw.priority] : null;
+
+  return {
+    ...raw,
+    id: raw.id,
+    custom_id: null,
+    name: raw.name,
+    text_content: raw.description ?? "",
+    description: raw.description ?? "",
+    status,
+    archived: raw.archived ?? false,
+    parent: raw.parent ?? null,
+    priority: priority ? { id: String(raw.priority), orderindex: String(raw.priority), ...priority } : null,
+    assignees: (raw.assignees ?? []).map((id: number) => toAssignee(state.members, id)),
+    tags: (raw.tags ?? []).map((tag: string | { name: string }) => (typeof tag === "string" ? toTag(tag) : tag)),
+    custom_fields: toCustomFields(state.customFields, raw.custom_fields),
+    checklists: (raw.checklists ?? []).map((checklist: { name: string; items: Array<{ name: string; resolved?: boolean }> }, index: number) => {
+      const items = checklist.items.map((item, itemIndex) => ({
+        id: `${raw.id}-cl${index}-${itemIndex}`,
+        name: item.name,
+        resolved: item.resolved ?? false,
+      }));
+      const resolved = items.filter((item) => item.resolved).length;
+      return { id: `${raw.id}-cl${index}`, name: checklist.name, resolved, unresolved: items.length - resolved, items };
+    }),
+    due_date: resolveDate(raw.due_date, now),
+    start_date: resolveDate(raw.start_date, now),
+    date_created: resolveDate(raw.date_created ?? "now", now),
+    date_updated: resolveDate(raw.date_updated ?? raw.date_created ?? "now", now),
+    date_done: resolveDate(raw.date_done, now),
+    date_closed: resolveDate(raw.date_closed, now),
+    list: { id: list.id, name: list.name, access: true },
+    folder: folder ? { id: folder.id, name: folder.name, hidden: false, access: true } : { id: "none", name: "hidden", hidden: true, access: true },
+    space: { id: space.id },
+    url: `https://app.clickup.com/t/${raw.id}`,
+  };
+};
+
+/**
+ * Time in status derived from the task's dates: the space's first status from creation
+ * until the task entered its current one (last status change, closing or update).
+ */
+const toTimeInStatus = (task: any, spaces: FakeSpace[], nowMs: number) => {
+  const first = findListLocation(spaces, task.list.id)!.space.statuses[0];
+  const created = Number(task.date_created);
+  const enteredCurrent = Number(task.status_changed ?? task.date_closed ?? task.date_updated ?? created);
+  const entry = (status: FakeStatus, from: number, to: number) => ({
+    status: status.status,
+    color: status.color,
+    type: status.type,
+    orderindex: status.orderindex,
+    total_time: { by_minute: Math.max(0, Math.round((to - from) / 60_000)), since: String(from) },
+  });
+  const current = entry(task.status, enteredCurrent, nowMs);
+  const history = task.status.status === first.status ? [current] : [entry(first, created, enteredCurrent), current];
+  return { current_status: current, status_history: history };
+};
+
+/**
+ * Fixtures list `waiting_on` ids on the waiting task; ClickUp shows each link on both tasks.
+ */
+const linkDependencies = (tasks: any[]): void => {
+  for (const task of tasks) {
+    task.dependencies = [];
+  }
+  for (const task of tasks) {
+    for (const blockerId of task.waiting_on ?? []) {
+      const blocker = tasks.find((item) => item.id === blockerId);
+      if (!blocker) {
+        throw new Error(`Fixture task ${task.id} waits on unknown task ${blockerId}`);
+      }
+      const dependency = { task_id: task.id, depends_on: blocker.id, type: 1 };
+      task.dependencies.push(dependency);
+      blocker.dependencies.push(dependency);
+    }
+  }
+};
+
+export const loadFixtures = (
+  dir: string = DEFAULT_FIXTURES_DIR,
+  now: DateTime = DateTime.now().setZone(config.timezone)
+): FakeClickUpState => {
+  const hierarchy = readJson(dir, "hierarchy.json");
+  const members: FakeMember[] = fs.existsSync(path.join(dir, "members.json"))
+    ? readJson(dir, "members.json")
+    : configMembers.map((member) => ({ id: member.id, username: member.username ?? member.name, email: member.email }));
+
+  const base = {
+    team: hierarchy.team,
+    members,
+    spaces: hierarchy.spaces as FakeSpace[],
+    customFields: (hierarchy.custom_fields ?? []) as FakeCustomField[],
+  };
+  const tasks = (readJson(dir, "tasks.json") as any[]).map((task) => normalizeTask(task, base, now));
+  linkDependencies(tasks);
+  const timeEntries = (readJson(dir, "timeEntries.json") as any[]).map((entry) => {
+    const task = tasks.find((item) => item.id === entry.task_id);
+    const member = members.find((item) => item.id === entry.user);
+    const start = Number(resolveDate(entry.start, now));
+    return {
+      id: entry.id,
+      task: task ? { id: task.id, name: task.name, status: task.status } : null,
+      user: { id: entry.user, username: member?.username ?? String(entry.user) },
+      start: String(start),
+      end: String(start + entry.duration),
+      duration: String(entry.duration),
+    };
+  });
+
+  // Optional - older fixture sets have no comments
+  const rawComments: any[] = fs.existsSync(path.join(dir, "comments.json")) ? readJson(dir, "comments.json") : [];
+  const comments = rawComments.map((comment) => ({
+    id: comment.id,
+    task_id: comment.task_id,
+    comment: [{ text: comment.text }],
+    comment_text: comment.text,
+    user: toAssignee(members, comment.user),
+    date: resolveDate(comment.date ?? "now", now),
+    reply_count: 0,
+  }));
+
+  return { ...base, tasks, timeEntries, comments };
+};
+
+const param = (query: URLSearchParams, key: string): string | null => query.get(key);
+const paramList = (query: URLSearchParams, key: string): string[] => [
+  ...query.getAll(`${key}[]`),
+  ...query.getAll(key).flatMap((value) => value.split(",")),
+].filter((value) => value.length > 0);
+
+const isTrue = (value: string | null): boolean => value === "true";
+
+const inRange = (value: string | null, query: URLSearchParams, field: string): boolean => {
+  const gt = param(query, `${field}_gt`);
+  const lt = param(query, `${field}_lt`);
+  if (gt === null && lt === null) {
+    return true;
+  }
+  if (value === null) {
+    return false;
+  }
+  if (gt !== null && !(Number(value) > Number(gt))) {
+    return false;
+  }
+  if (lt !== null && !(Number(value) < Number(lt))) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Filter, sort and paginate the way the team/list task endpoints do.
+ */
+const queryTasks = (tasks: any[], query: URLSearchParams) => {
+  const assignees = paramList(query, "assignees");
+  const listIds = paramList(query, "list_ids");
+  const spaceIds = paramList(query, "space_ids");
+  const folderIds = paramList(query, "project_ids");
+  const statuses = paramList(query, "statuses").map((value) => value.toLowerCase());
+  const tags = paramList(query, "tags").map((value) => value.toLowerCase());
+  const includeClosed = isTrue(param(query, "include_closed"));
+  const archived = isTrue(param(query, "archived"));
+  const subtasks = isTrue(param(query, "subtasks"));
+
+  const filtered = tasks.filter((task) => {
+    if (task.archived !== archived) return false;
+    if (!includeClosed && task.status.type === "closed") return false;
+    if (!subtasks && task.parent) return false;
+    if (assignees.length > 0 && !task.assignees.some((a: any) => assignees.includes(String(a.id)))) return false;
+    if (listIds.length > 0 && !listIds.includes(task.list.id)) return false;
+    if (spaceIds.length > 0 && !spaceIds.includes(task.space.id)) return false;
+    if (folderIds.length > 0 && !folderIds.includes(task.folder.id)) return false;
+    if (statuses.length > 0 && !statuses.includes(task.status.status.toLowerCase())) return false;
+    if (tags.length > 0 && !task.tags.some((tag: any) => tags.includes(tag.name.toLowerCase()))) return false;
+    return (
+      inRange(task.due_date, query, "due_date") &&
+      inRange(task.date_created, query, "date_created") &&
+      inRange(task.date_updated, query, "date_updated") &&
+      inRange(task.date_done, query, "date_done")
+    );
+  });
+
+  const orderField = {
+    id: "id",
+    created: "date_created",
+    updated: "date_updated",
+    due_date: "due_date",
+  }[param(query, "order_by") ?? "created"] ?? "date_created";
+  const reverse = isTrue(param(query, "reverse"));
+  filtered.sort((a, b) => {
+    const left = Number(a[orderField] ?? Infinity);
+    const right = Number(b[orderField] ?? Infinity);
+    // ClickUp orders newest first unless reverse is set
+    return reverse ? left - right : right - left;
+  });
+
+  const page = Number(param(query, "page") ?? 0);
+  const tasksPage = filtered.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+  return { tasks: tasksPage, last_page: (page + 1) * PAGE_SIZE >= filtered.length };
+};
+
+type Route = {
+  method: string;
+  pattern: RegExp;
+  handle: (state: FakeClickUpState, params: string[], query: URLSearchParams, body: any) => unknown;
+};
+
+class NotFound extends Error {}
+class BadRequest extends Error {}
+
+let createdTaskCounter = 0;
+
+const routes: Route[] = [
+  {
+    method: "GET",
+    pattern: /^\/team$/,
+    handle: (state) => ({
+      teams: [{ ...state.team, members: state.members.map((user) => ({ user: { ...user, role: 3 } })) }],
+    }),
+  },
+  {
+    method: "GET",
+    pattern: /^\/team\/([^/]+)\/task$/,
+    handle: (state, _params, query) => queryTasks(state.tasks, query),
+  },
+  {
+    method: "GET",
+    pattern: /^\/list\/([^/]+)\/task$/,
+    handle: (state, [listId], query) => {
+      if (!findListLocation(state.spaces, listId)) throw new NotFound();
+      return queryTasks(state.tasks.filter((task) => task.list.id === listId), query);
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/list\/([^/]+)\/task$/,
+    handle: (state, [listId], _query, body) => {
+      const location = findListLocation(state.spaces, listId);
+      if (!location) throw new NotFound();
+      if (!body?.name) throw new BadRequest("Task name invalid");
+      const now = DateTime.now().setZone(config.timezone);
+      createdTaskCounter += 1;
+      const task = normalizeTask(
+        {
+          id: `86new${String(createdTaskCounter).padStart(3, "0")}`,
+          name: body.name,
+          description: body.description,
+          list_id: listId,
+          status: body.status ?? location.space.statuses[0]?.status,
+          priority: body.priority ?? null,
+          assignees: body.assignees ?? [],
+          tags: body.tags ?? [],
+          due_date: body.due_date ?? null,
+          start_date: body.start_date ?? null,
+          date_created: String(now.toMillis()),
+        },
+        state,
+        now
+      );
+      state.tasks.push(task);
+      return task;
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/task\/([^/]+)$/,
+    handle: (state, [taskId], query) => {
+      const task = state.tasks.find((item) => item.id === taskId);
+      if (!task) throw new NotFound();
+      const timeSpent = state.timeEntries
+        .filter((entry) => entry.task?.id === taskId)
+        .reduce((sum, entry) => sum + Number(entry.duration), 0);
+      return {
+        ...task,
+        time_spent: timeSpent || null,
+        ...(isTrue(param(query, "include_subtasks"))
+          ? { subtasks: state.tasks.filter((item) => item.parent === taskId) }
+          : {}),
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/task\/([^/]+)\/time_in_status$/,
+    handle: (state, [taskId]) => {
+      const task = state.tasks.find((item) => item.id === taskId);
+      if (!task) throw new NotFound();
+      return toTimeInStatus(task, state.spaces, Date.now());
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/task\/bulk_time_in_status\/task_ids$/,
+    handle: (state, _params, query) => {
+      const ids = query.getAll("task_ids");
+      if (ids.length === 0 || ids.length > 100) throw new BadRequest("task_ids must contain 1-100 ids");
+      const result: Record<string, unknown> = {};
+      for (const task of state.tasks.filter((item) => ids.includes(item.id))) {
+        result[task.id] = toTimeInStatus(task, state.spaces, Date.now());
+      }
+      return result;
+    },
+  },
+  {
+    method: "PUT",
+    pattern: /^\/task\/([^/]+)$/,
+    handle: (state, [taskId], _query, body) => {
+      const task = state.tasks.find((item) => item.id === taskId);
+      if (!task) throw new NotFound();
+      const location = findListLocation(state.spaces, task.list.id)!;
+
+      if (body.status !== undefined) {
+        const status = location.space.statuses.find((item) => item.status.toLowerCase() === String(body.status).toLowerCase());
+        if (!status) throw new BadRequest("Status does not exist");
+        task.status = status;
+        task.status_changed = String(Date.now());
+        task.date_closed = status.type === "closed" || status.type === "done" ? String(Date.now()) : null;
+        task.date_done = task.date_closed;
+      }
+      if (body.name !== undefined) task.name = body.name;
+      if (body.due_date !== undefined) task.due_date = body.due_date === null ? null : String(body.due_date);
+      if (body.assignees) {
+        const removed = new Set<number>(body.assignees.rem ?? []);
+        const ids: number[] = task.assignees.map((item: any) => item.id).filter((id: number) => !removed.has(id));
+        ids.push(...(body.assignees.add ?? []).filter((id: number) => !ids.includes(id)));
+        task.assignees = ids.map((id) => toAssignee(state.members, id));
+      }
+      task.date_updated = String(Date.now());
+      return task;
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/task\/([^/]+)\/comment$/,
+    handle: (state, [taskId]) => {
+      if (!state.tasks.some((item) => item.id === taskId)) throw new NotFound();
+      // Newest first, like ClickUp
+      const comments = state.comments
+        .filter((comment) => comment.task_id === taskId)
+        .sort((a, b) => Number(b.date) - Number(a.date))
+        .map(({ task_id, ...comment }) => comment);
+      return { comments };
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/task\/([^/]+)\/comment$/,
+    handle: (state, [taskId], _query, body) => {
+      if (!state.tasks.some((item) => item.id === taskId)) throw new NotFound();
+      const parts: any[] = body.comment ?? [{ text: body.comment_text ?? "" }];
+      const text = parts
+        .map((part) => (part.type === "tag" ? `@${toAssignee(state.members, part.user.id).username}` : part.text ?? ""))
+        .join("");
+      if (!text.trim()) throw new BadRequest("Comment text invalid");
+      const comment = {
+        id: `c${Date.now()}`,
+        task_id: taskId,
+        comment: parts,
+        comment_text: text,
+        user: toAssignee(state.members, state.members[0]?.id ?? 0),
+        date: String(Date.now()),
+        reply_count: 0,
+      };
+      state.comments.push(comment);
+      return { id: comment.id, hist_id: comment.id, date: Number(comment.date) };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/team\/([^/]+)\/time_entries$/,
+    handle: (state, _params, query) => {
+      const start = Number(param(query, "start_date") ?? 0);
+      const end = Number(param(query, "end_date") ?? Date.now());
+      const assignees = paramList(query, "assignee");
+      return {
+        data: state.timeEntries.filter((entry) => {
+          if (Number(entry.start) < start || Number(entry.start) > end) return false;
+          return assignees.length === 0 || assignees.includes(String(entry.user.id));
+        }),
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/team\/([^/]+)\/space$/,
+    handle: (state) => ({ spaces: state.spaces.map(({ folders, lists, ...space }) => space) }),
+  },
+  {
+    method: "GET",
+    pattern: /^\/space\/([^/]+)$/,
+    handle: (state, [spaceId]) => {
+      const space = state.spaces.find((item) => item.id === spaceId);
+      if (!space) throw new NotFound();
+      const { folders, lists, ...rest } = space;
+      return rest;
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/space\/([^/]+)\/folder$/,
+    handle: (state, [spaceId]) => {
+      const space = state.spaces.find((item) => item.id === spaceId);
+      if (!space) throw new NotFound();
+      return { folders: space.folders };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/space\/([^/]+)\/list$/,
+    handle: (state, [spaceId]) => {
+      const space = state.spaces.find((item) => item.id === spaceId);
+      if (!space) throw new NotFound();
+      return { lists: space.lists };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/folder\/([^/]+)\/list$/,
+    handle: (state, [folderId]) => {
+      const folder = state.spaces.flatMap((space) => space.folders).find((item) => item.id === folderId);
+      if (!folder) throw new NotFound();
+      return { lists: folder.lists };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/list\/([^/]+)$/,
+    handle: (state, [listId]) => {
+      const location = findListLocation(state.spaces, listId);
+      if (!location) throw new NotFound();
+      return {
+        ...location.list,
+        folder: location.folder ? { id: location.folder.id, name: location.folder.name } : null,
+        space: { id: location.space.id, name: location.space.name },
+        statuses: location.space.statuses,
+      };
+    },
+  },
+];
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks).toString("utf-8");
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+
+const handleRequest = async (state: FakeClickUpState, req: IncomingMessage, res: ServerResponse) => {
+  if (!req.headers.authorization) {
+    send(res, 401, { err: "Token invalid", ECODE: "OAUTH_025" });
+    return;
+  }
+
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const pathname = url.pathname.replace(/^\/api\/v2/, "");
+  for (const route of routes) {
+    const match = route.method === req.method ? route.pattern.exec(pathname) : null;
+    if (!match) {
+      continue;
+    }
+    try {
+      const body = req.method === "GET" ? undefined : await readBody(req);
+      send(res, 200, route.handle(state, match.slice(1), url.searchParams, body));
+    } catch (error) {
+      if (error instanceof NotFound) {
+        send(res, 404, { err: "Not found", ECODE: "ITEM_013" });
+        return;
+      }
+      if (error instanceof BadRequest || error instanceof SyntaxError) {
+        send(res, 400, { err: error.message, ECODE: "INPUT_005" });
+        return;
+      }
+      send(res, 500, { err: String(error) });
+    }
+    return;
+  }
+
+  send(res, 404, { err: `Route not found: ${req.method} ${pathname}`, ECODE: "APP_001" });
+};
+
+export const startFakeClickUpServer = (options: {
+  port?: number;
+  state?: FakeClickUpState;
+} = {}): Promise<FakeClickUpServer> => {
+  const state = options.state ?? loadFixtures();
+  const server: Server = createServer((req, res) => void handleRequest(state, req, res));
+
+  return new Promise((resolve) => {
+    server.listen(options.port ?? 0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}/api/v2`,
+        state,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+};
+
+if (require.main === module) {
+  const port = Number(process.argv[2] ?? 4010);
+  const fixturesDir = process.argv[3] ?? DEFAULT_FIXTURES_DIR;
+  startFakeClickUpServer({ port, state: loadFixtures(fixturesDir) }).then((server) => {
+    console.log(`Fake ClickUp API listening on ${server.url}`);
+    console.log(
+      `  ${server.state.tasks.length} tasks, ${server.state.timeEntries.length} time entries, ${server.state.comments.length} comments`
+    );
+  });
+}
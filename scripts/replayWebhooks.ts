@@ -0,0 +1,45 @@
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "../src/config/config";
+import { signWebhookBody } from "../src/clickup/webhooks";
+
+/**
+ * Local stand-in for ClickUp: posts recorded webhook payloads, signed the same
+ * way ClickUp signs them, to a running webhook receiver.
+ *
+ * Usage: ts-node scripts/replayWebhooks.ts [fixtures dir] [target url]
+ */
+const DEFAULT_FIXTURES_DIR = path.join(__dirname, "fixtures/webhooks");
+
+const main = async () => {
+  const fixturesDir = process.argv[2] ?? DEFAULT_FIXTURES_DIR;
+  const webhookPath = config.webhook.url ? new URL(config.webhook.url).pathname : "/clickup/webhook";
+  const target = process.argv[3] ?? `http://localhost:${config.webhook.port}${webhookPath}`;
+  const secret = config.webhook.secret;
+
+  if (!secret) {
+    throw new Error("CLICKUP_WEBHOOK_SECRET must be set to sign replayed payloads.");
+  }
+
+  const files = fs.readdirSync(fixturesDir).filter((file) => file.endsWith(".json")).sort();
+  console.log(`Replaying ${files.length} payloads to ${target}\n`);
+
+  for (const file of files) {
+    // Re-serialize so the signature covers exactly the bytes we send
+    const body = JSON.stringify(JSON.parse(fs.readFileSync(path.join(fixturesDir, file), "utf-8")));
+    const response = await fetch(target, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Signature": signWebhookBody(body, secret),
+      },
+      body,
+    });
+    console.log(`  ${file}: ${response.status}`);
+  }
+};
+
+main().catch((error) => {
+  console.error("❌ Error:", error);
+  process.exit(1);
+});
@@ -1,4 +1,4 @@
-import { ClickUpMcpClient } from "../src/mcp/clickupClient";
+import { clickupClient } from "../src/clickup/client";
 import { config } from "../src/config/config";
 import * as fs from "fs";
 import * as path from "path";
@@ -76,39 +76,36 @@ const extractAllListIds = (data: any): string[] => {
 };
 
 const main = async () => {
-  console.log("Connecting to ClickUp MCP...");
-  const clickup = new ClickUpMcpClient();
-
   try {
-    // First, list available tools
-    console.log("Listing available MCP tools...");
-    const tools = await clickup.listTools();
-    console.log("Available tools:", tools.map((t: any) => t.name));
-
     // Get all tasks from marketing space and extract list IDs
-    console.log(`\nQuerying all tasks from marketing space ${MARKETING_SPACE_ID}...`);
-
-    const tasksData = await clickup.callTool("get_workspace_tasks", {
-      space_ids: [MARKETING_SPACE_ID],
-      include_closed: false
-    });
+    console.log(`Querying all tasks from marketing space ${MARKETING_SPACE_ID}...`);
+
+    const tasksData: any[] = [];
+    for (let page = 0; ; page++) {
+      const response = await clickupClient.get(`/team/${config.clickup.teamId}/task`, {
+        space_ids: [MARKETING_SPACE_ID],
+        include_closed: false,
+        page,
+      });
+      const tasks = response.tasks || [];
+      tasksData.push(...tasks);
+      if (tasks.length === 0 || response.last_page) break;
+    }
 
-    console.log(`Received ${Array.isArray(tasksData) ? tasksData.length : 0} tasks`);
+    console.log(`Received ${tasksData.length} tasks`);
 
     // Extract unique list IDs from tasks
     const uniqueLists = new Set<string>();
     const listNames = new Map<string, string>();
 
-    if (tasksData && Array.isArray(tasksData)) {
-      tasksData.forEach((task: any) => {
-        if (task.list && task.list.id) {
-          uniqueLists.add(task.list.id);
-          if (task.list.name) {
-            listNames.set(task.list.id, task.list.name);
-          }
+    tasksData.forEach((task: any) => {
+      if (task.list && task.list.id) {
+        uniqueLists.add(task.list.id);
+        if (task.list.name) {
+          listNames.set(task.list.id, task.list.name);
         }
-      });
-    }
+      }
+    });
 
     const listIds = Array.from(uniqueLists);
 
@@ -136,8 +133,6 @@ const main = async () => {
   } catch (error) {
     console.error("Error:", error);
     throw error;
-  } finally {
-    await clickup.close();
   }
 };
 
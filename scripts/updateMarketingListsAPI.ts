@@ -1,4 +1,4 @@
-import { config } from "../src/config/config";
+import { clickupClient } from "../src/clickup/client";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -27,22 +27,8 @@ interface ClickUpSpace {
 }
 
 const fetchClickUpAPI = async (endpoint: string): Promise<any> => {
-  const url = `https://api.clickup.com/api/v2${endpoint}`;
-  console.log(`Fetching: ${url}`);
-
-  const response = await fetch(url, {
-    headers: {
-      Authorization: config.clickup.apiKey,
-      "Content-Type": "application/json",
-    },
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`ClickUp API error ${response.status}: ${text}`);
-  }
-
-  return response.json();
+  console.log(`Fetching: ${endpoint}`);
+  return clickupClient.get(endpoint);
 };
 
 const main = async () => {
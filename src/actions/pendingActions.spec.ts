@@ -0,0 +1,51 @@
+import { PendingActionPayload, PendingActionStore } from "./pendingActions";
+
+const NOW = Date.UTC(2026, 9, 19, 6);
+const MINUTE = 60 * 1000;
+
+const payload: PendingActionPayload = {
+  kind: "update_task",
+  change: {
+    taskId: "86abc123",
+    taskName: "Підготувати звіт",
+    taskUrl: "https://app.clickup.com/t/86abc123",
+    field: "status",
+    from: "to do",
+    to: "in progress",
+  },
+};
+
+describe("PendingActionStore", () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = NOW;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("hands an action out once, only to the user who created it", () => {
+    const store = new PendingActionStore();
+    const action = store.add(1, payload);
+
+    expect(action).toMatchObject({ ...payload, userId: 1, createdAt: NOW });
+    expect(store.take(2, action.id)).toBeNull();
+    expect(store.take(1, action.id)).toEqual(action);
+    expect(store.take(1, action.id)).toBeNull();
+  });
+
+  it("expires actions after 15 minutes", () => {
+    const store = new PendingActionStore();
+    const fresh = store.add(1, payload);
+    const stale = store.add(1, payload);
+
+    now = NOW + 15 * MINUTE;
+    expect(store.take(1, fresh.id)).toEqual(fresh);
+
+    now = NOW + 15 * MINUTE + 1;
+    expect(store.take(1, stale.id)).toBeNull();
+  });
+});
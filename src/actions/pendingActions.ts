@@ -0,0 +1,80 @@
+import { randomBytes } from "crypto";
+
+// Confirmation cards older than this are treated as expired
+const PENDING_TTL_MS = 15 * 60 * 1000;
+
+export type TaskDraft = {
+  name: string;
+  description?: string;
+  listId: string;
+  departmentKey: string;
+  assigneeId: number;
+  assigneeName: string;
+  dueDate?: number;
+};
+
+type TaskRef = { taskId: string; taskName: string; taskUrl: string };
+
+export type TaskChange = TaskRef & (
+  | { field: "status"; from: string; to: string }
+  | { field: "due_date"; from: number | null; to: number }
+  | { field: "assignee"; from: Array<{ id: number; name: string }>; to: { id: number; name: string } }
+);
+
+export type CommentDraft = TaskRef & {
+  text: string;
+  mentions: Array<{ id: number; name: string }>;
+};
+
+export type PendingActionPayload =
+  | { kind: "create_task"; draft: TaskDraft }
+  | { kind: "update_task"; change: TaskChange }
+  | { kind: "add_comment"; comment: CommentDraft };
+
+export type PendingAction = PendingActionPayload & {
+  id: string;
+  userId: number;
+  createdAt: number;
+};
+
+/**
+ * Write actions waiting for the user to press Confirm or Cancel.
+ * Kept in memory: an unconfirmed card is harmless to lose on restart.
+ */
+export class PendingActionStore {
+  private actions = new Map<string, PendingAction>();
+
+  add(userId: number, payload: PendingActionPayload): PendingAction {
+    this.prune();
+    const action: PendingAction = {
+      ...payload,
+      id: randomBytes(6).toString("hex"),
+      userId,
+      createdAt: Date.now(),
+    };
+    this.actions.set(action.id, action);
+    return action;
+  }
+
+  /**
+   * Remove and return the action, only for the user who created it.
+   */
+  take(userId: number, actionId: string): PendingAction | null {
+    this.prune();
+    const action = this.actions.get(actionId);
+    if (!action || action.userId !== userId) {
+      return null;
+    }
+    this.actions.delete(actionId);
+    return action;
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - PENDING_TTL_MS;
+    for (const [id, action] of this.actions) {
+      if (action.createdAt < cutoff) {
+        this.actions.delete(id);
+      }
+    }
+  }
+}
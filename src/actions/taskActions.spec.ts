@@ -0,0 +1,40 @@
+import { parseTaskCallback, taskEditButtons, taskMenuCallback } from "./taskActions";
+
+describe("parseTaskCallback", () => {
+  it("parses menu, picker and set callbacks", () => {
+    expect(parseTaskCallback(taskMenuCallback("86abc123"))).toEqual({
+      step: "menu",
+      field: undefined,
+      taskId: "86abc123",
+      value: undefined,
+    });
+    expect(parseTaskCallback("task:pick:due:86abc123")).toEqual({
+      step: "pick",
+      field: "due",
+      taskId: "86abc123",
+      value: undefined,
+    });
+    expect(parseTaskCallback("task:set:assignee:86abc123:100638820")).toEqual({
+      step: "set",
+      field: "assignee",
+      taskId: "86abc123",
+      value: "100638820",
+    });
+    // Statuses are picked by a short hash of their name
+    expect(parseTaskCallback("task:set:status:86abc123:3f2a9c01")).toMatchObject({ field: "status", value: "3f2a9c01" });
+  });
+
+  it("accepts every edit button it hands out", () => {
+    for (const button of taskEditButtons("86abc123").flat()) {
+      expect("callbackData" in button && parseTaskCallback(button.callbackData)).toMatchObject({ step: "pick", taskId: "86abc123" });
+    }
+  });
+
+  it("rejects other callbacks", () => {
+    expect(parseTaskCallback("menu:main")).toBeNull();
+    expect(parseTaskCallback("task:drop:86abc123")).toBeNull();
+    expect(parseTaskCallback("task:pick:priority:86abc123")).toBeNull();
+    expect(parseTaskCallback("task:menu:86ABC123")).toBeNull();
+    expect(parseTaskCallback("task:set:status:86abc123:in progress")).toBeNull();
+  });
+});
@@ -0,0 +1,573 @@
+import { createHash } from "crypto";
+import { DateTime } from "luxon";
+import { config } from "../config/config";
+import { departments, expandDepartment, findDepartmentInText, getDepartmentListIds, normalizeDepartmentKey } from "../config/departments";
+import { assigneeName, members, resolveMember } from "../config/teamMembers";
+import { ClickUpClient } from "../clickup/client";
+import { AgentReply, ReplyButton } from "../agent/types";
+import { TaskData } from "../agent/queryTypes";
+import { AuditEntry } from "../storage/types";
+import { escapeAttr, escapeHtml } from "../utils/html";
+import { logger } from "../utils/logger";
+import { CommentDraft, PendingAction, PendingActionStore, TaskChange, TaskDraft } from "./pendingActions";
+import { formatCommentThread, loadTaskComments } from "./taskComments";
+
+export type CreateTaskArgs = {
+  assignee: string;
+  project: string;
+  name: string;
+  description?: string;
+  dueDate?: string;
+};
+
+export type ActionResult = {
+  reply: AgentReply;
+  task?: TaskData;
+  audit?: Omit<AuditEntry, "userId" | "userName">;
+};
+
+type ListStatus = { status: string; type: string; orderindex: number };
+
+type TaskField = "status" | "due" | "assignee" | "comments";
+
+export type TaskCallback = {
+  step: "menu" | "back" | "pick" | "set";
+  field?: TaskField;
+  taskId: string;
+  value?: string;
+};
+
+const CONFIRM_PREFIX = "act:confirm:";
+const CANCEL_PREFIX = "act:cancel:";
+
+export const ACTION_CALLBACK_PATTERN = /^act:(confirm|cancel):([0-9a-f]+)$/;
+
+// task:menu:<id> | task:back:<id> | task:pick:<field>:<id> | task:set:<field>:<id>:<value>
+// - kept well under Telegram's 64 bytes. "back" is the menu again, shown in place.
+export const TASK_CALLBACK_PATTERN = /^task:(menu|back|pick|set):(?:(status|due|assignee|comments):)?([a-z0-9]+)(?::([0-9a-f]+))?$/;
+
+// Comments shown under the task menu
+const MENU_COMMENTS_LIMIT = 5;
+
+// List statuses change rarely; refetch occasionally so renamed statuses are picked up
+const STATUS_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Status names can be long and Cyrillic, so the status picker sends a short hash of the name instead
+const statusKey = (status: string): string => createHash("sha1").update(status.toLowerCase()).digest("hex").slice(0, 8);
+
+export const taskMenuCallback = (taskId: string): string => `task:menu:${taskId}`;
+
+/**
+ * Edit buttons of the task menu, also shown under a task's detail card
+ */
+export const taskEditButtons = (taskId: string): ReplyButton[][] => [[
+  { text: "🔄 Статус", callbackData: `task:pick:status:${taskId}` },
+  { text: "📅 Дедлайн", callbackData: `task:pick:due:${taskId}` },
+  { text: "👤 Виконавець", callbackData: `task:pick:assignee:${taskId}` },
+], [
+  { text: "💬 Коментарі", callbackData: `task:pick:comments:${taskId}` },
+]];
+
+export const parseTaskCallback = (data: string): TaskCallback | null => {
+  const match = TASK_CALLBACK_PATTERN.exec(data);
+  if (!match) {
+    return null;
+  }
+  const [, step, field, taskId, value] = match;
+  // Without a field a trailing value means the field was not recognised, e.g. task:pick:priority:<id>
+  if (value !== undefined && !field) {
+    return null;
+  }
+  return { step: step as TaskCallback["step"], field: field as TaskField | undefined, taskId, value };
+};
+
+const formatDueDate = (millis?: number | null): string => {
+  if (!millis) {
+    return "—";
+  }
+  return DateTime.fromMillis(millis).setZone(config.timezone).setLocale("uk").toFormat("ccc, dd.MM");
+};
+
+/**
+ * Parse a YYYY-MM-DD (or YYYYMMDD) date in config.timezone.
+ * Midday so the calendar date survives timezone shifts in the ClickUp UI.
+ */
+const parseDueDate = (value: string): number | null => {
+  const parsed = /^\d{8}$/.test(value)
+    ? DateTime.fromFormat(value, "yyyyMMdd", { zone: config.timezone })
+    : DateTime.fromISO(value, { zone: config.timezone });
+  if (!parsed.isValid) {
+    return null;
+  }
+  return parsed.set({ hour: 12, minute: 0, second: 0, millisecond: 0 }).toMillis();
+};
+
+const statusName = (task: TaskData): string =>
+  typeof task.status === "string" ? task.status : task.status?.status || "—";
+
+const taskUrl = (task: { id: string; url?: string }): string => task.url || `https://app.clickup.com/t/${task.id}`;
+
+const taskLink = (change: { taskName: string; taskUrl: string }): string =>
+  `<a href="${escapeAttr(change.taskUrl)}">${escapeHtml(change.taskName)}</a>`;
+
+const assigneeNames = (assignees: Array<{ name: string }>): string =>
+  assignees.length > 0 ? assignees.map((assignee) => assignee.name).join(", ") : "—";
+
+const confirmButtons = (action: PendingAction, confirmLabel: string): AgentReply["buttons"] => [[
+  { text: confirmLabel, callbackData: `${CONFIRM_PREFIX}${action.id}` },
+  { text: "✖️ Скасувати", callbackData: `${CANCEL_PREFIX}${action.id}` },
+]];
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const rows: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    rows.push(items.slice(i, i + size));
+  }
+  return rows;
+};
+
+/**
+ * Write operations on ClickUp tasks. Every change is prepared as a pending action
+ * and only sent to ClickUp after the user confirms it with an inline button.
+ */
+export class TaskActions {
+  private listStatuses = new Map<string, { statuses: ListStatus[]; loadedAt: number }>();
+
+  constructor(
+    private clickup: ClickUpClient,
+    private pending: PendingActionStore = new PendingActionStore()
+  ) {}
+
+  /**
+   * Validate the create_task tool arguments and build a confirmation card.
+   * Returns `{ error }` for the model when the person, project or date cannot be resolved.
+   */
+  prepareCreateTask(userId: number, args: CreateTaskArgs): AgentReply | { error: string } {
+    const member = resolveMember(args.assignee ?? "");
+    if (!member) {
+      return { error: `Unknown assignee "${args.assignee}". Ask the user who should do the task.` };
+    }
+
+    const departmentKey = normalizeDepartmentKey(args.project) ?? findDepartmentInText(args.project);
+    if (!departmentKey) {
+      return { error: `Unknown project "${args.project}". Ask the user which project the task belongs to.` };
+    }
+
+    const listIds = getDepartmentListIds(departmentKey);
+    if (listIds.length !== 1) {
+      // Groups like all_clients span many lists - only single-list projects are unambiguous
+      const candidates = expandDepartment(departmentKey).filter((key) => departments[key].list_ids?.length === 1);
+      return {
+        error: `Project "${departmentKey}" spans ${listIds.length} lists. Ask the user to pick one of: ${candidates.join(", ") || "none"}.`,
+      };
+    }
+
+    let dueDate: number | undefined;
+    if (args.dueDate) {
+      const parsed = parseDueDate(args.dueDate);
+      if (parsed === null) {
+        return { error: `Invalid dueDate "${args.dueDate}", expected YYYY-MM-DD.` };
+      }
+      dueDate = parsed;
+    }
+
+    const name = (args.name ?? "").trim();
+    if (!name) {
+      return { error: "Task name is empty. Ask the user what the task is." };
+    }
+
+    const draft: TaskDraft = {
+      name,
+      description: args.description?.trim() || undefined,
+      listId: listIds[0],
+      departmentKey,
+      assigneeId: member.id,
+      assigneeName: member.name,
+      dueDate,
+    };
+    const action = this.pending.add(userId, { kind: "create_task", draft });
+    logger.info("task_action_prepared", { userId, actionId: action.id, kind: action.kind, draft });
+
+    const lines = [
+      "📝 <b>Нова задача</b>",
+      "",
+      `<b>Назва:</b> ${escapeHtml(draft.name)}`,
+      `<b>Виконавець:</b> ${escapeHtml(draft.assigneeName)}`,
+      `<b>Проєкт:</b> ${escapeHtml(draft.departmentKey)}`,
+      `<b>Дедлайн:</b> ${formatDueDate(draft.dueDate)}`,
+    ];
+    if (draft.description) {
+      lines.push(`<b>Опис:</b> ${escapeHtml(draft.description)}`);
+    }
+    lines.push("", "Створити?");
+
+    return { text: lines.join("\n"), buttons: confirmButtons(action, "✅ Створити") };
+  }
+
+  /**
+   * Confirmation card for moving a task to another status of its list.
+   * The status name is matched case-insensitively against the list's real status set.
+   */
+  async prepareStatusChange(userId: number, task: TaskData, status: string): Promise<AgentReply | { error: string }> {
+    if (!task.list) {
+      return { error: `Task ${task.id} has no list, its statuses are unknown.` };
+    }
+    const statuses = await this.getListStatuses(task.list.id);
+    const wanted = status.trim().toLowerCase();
+    const exact = statuses.filter((item) => item.status.toLowerCase() === wanted);
+    const matches = exact.length > 0 ? exact : statuses.filter((item) => item.status.toLowerCase().includes(wanted));
+    if (matches.length !== 1) {
+      return {
+        error: `Status "${status}" is not ${matches.length > 1 ? "unique" : "available"} in list "${task.list.name}". Ask the user to pick one of: ${statuses.map((item) => item.status).join(", ")}.`,
+      };
+    }
+
+    const from = statusName(task);
+    const to = matches[0].status;
+    if (from.toLowerCase() === to.toLowerCase()) {
+      return { error: `Task is already in status "${to}". Tell the user nothing needs to change.` };
+    }
+
+    return this.prepareChange(userId, { ...this.taskRef(task), field: "status", from, to });
+  }
+
+  /**
+   * Confirmation card for moving the due date (YYYY-MM-DD)
+   */
+  prepareDueDateChange(userId: number, task: TaskData, dueDate: string): AgentReply | { error: string } {
+    const to = parseDueDate(dueDate);
+    if (to === null) {
+      return { error: `Invalid dueDate "${dueDate}", expected YYYY-MM-DD.` };
+    }
+    const from = task.due_date ? Number(task.due_date) : null;
+    return this.prepareChange(userId, { ...this.taskRef(task), field: "due_date", from, to });
+  }
+
+  /**
+   * Confirmation card for handing the task over to another member (replaces all current assignees)
+   */
+  prepareReassign(userId: number, task: TaskData, assignee: string): AgentReply | { error: string } {
+    const member = resolveMember(assignee);
+    if (!member) {
+      return { error: `Unknown assignee "${assignee}". Ask the user who should take the task.` };
+    }
+    const from = (task.assignees || []).map((item) => ({
+      id: Number(item.id),
+      name: assigneeName(item),
+    }));
+    if (from.length === 1 && from[0].id === member.id) {
+      return { error: `Task is already assigned to ${member.name}. Tell the user nothing needs to change.` };
+    }
+    return this.prepareChange(userId, { ...this.taskRef(task), field: "assignee", from, to: { id: member.id, name: member.name } });
+  }
+
+  /**
+   * Confirmation card for posting a comment. With `mentionAssignees` the task's
+   * assignees are @mentioned so ClickUp notifies them.
+   */
+  prepareComment(userId: number, task: TaskData, text: string, mentionAssignees = false): AgentReply | { error: string } {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      return { error: "Comment text is empty. Ask the user what to write." };
+    }
+    const mentions = mentionAssignees
+      ? (task.assignees || []).map((item) => ({ id: Number(item.id), name: assigneeName(item) }))
+      : [];
+    const comment: CommentDraft = { ...this.taskRef(task), text: trimmed, mentions };
+
+    const action = this.pending.add(userId, { kind: "add_comment", comment });
+    logger.info("task_action_prepared", { userId, actionId: action.id, kind: action.kind, taskId: task.id });
+
+    const lines = [`💬 <b>Коментар до</b> ${taskLink(comment)}`, "", escapeHtml(comment.text)];
+    if (mentions.length > 0) {
+      lines.push("", `🔔 Згадати: ${escapeHtml(assigneeNames(mentions))}`);
+    }
+    lines.push("", "Надіслати?");
+
+    return { text: lines.join("\n"), buttons: confirmButtons(action, "✅ Надіслати") };
+  }
+
+  /**
+   * Inline edit flow started from the ✏️ buttons under a task list:
+   * menu → pick a field → pick a value → the usual confirmation card.
+   */
+  async handleTaskCallback(userId: number, task: TaskData, callback: TaskCallback): Promise<AgentReply> {
+    if (callback.step === "menu" || callback.step === "back" || !callback.field) {
+      return this.taskMenu(task);
+    }
+
+    if (callback.step === "pick") {
+      switch (callback.field) {
+        case "status":
+          return this.statusPicker(task);
+        case "due":
+          return this.dueDatePicker(task);
+        case "assignee":
+          return this.assigneePicker(task);
+        case "comments":
+          return this.commentsView(task);
+      }
+    }
+
+    let prepared: AgentReply | { error: string };
+    switch (callback.field) {
+      case "status": {
+        // The picker may be older than the cached statuses - check against the list as it is now
+        const statuses = task.list ? await this.getListStatuses(task.list.id, true) : [];
+        const status = statuses.find((item) => statusKey(item.status) === callback.value);
+        prepared = status
+          ? await this.prepareStatusChange(userId, task, status.status)
+          : { error: "unknown status" };
+        break;
+      }
+      case "due":
+        prepared = this.prepareDueDateChange(userId, task, callback.value ?? "");
+        break;
+      case "assignee":
+        prepared = this.prepareReassign(userId, task, callback.value ?? "");
+        break;
+      default:
+        return this.taskMenu(task);
+    }
+
+    if ("error" in prepared) {
+      logger.warn("task_callback_rejected", { userId, taskId: task.id, callback, error: prepared.error });
+      return { text: "⚠️ Цю зміну вже не можна застосувати. Відкрийте задачу ще раз.", buttons: this.backButton(task) };
+    }
+    return prepared;
+  }
+
+  /**
+   * Run a confirmed action. `userName` signs comments posted on the user's behalf.
+   */
+  async confirm(userId: number, actionId: string, userName?: string): Promise<ActionResult> {
+    const action = this.pending.take(userId, actionId);
+    if (!action) {
+      return { reply: { text: "⌛ Дія вже виконана або застаріла." } };
+    }
+
+    logger.info("task_action_confirmed", { userId, actionId, kind: action.kind });
+    switch (action.kind) {
+      case "create_task":
+        return this.createTask(action.draft);
+      case "update_task":
+        return this.updateTask(action.change);
+      case "add_comment":
+        return this.postComment(action.comment, userName);
+    }
+  }
+
+  cancel(userId: number, actionId: string): AgentReply {
+    const action = this.pending.take(userId, actionId);
+    logger.info("task_action_cancelled", { userId, actionId, found: Boolean(action) });
+    return { text: "✖️ Скасовано." };
+  }
+
+  private taskRef(task: TaskData) {
+    return { taskId: task.id, taskName: task.name, taskUrl: taskUrl(task) };
+  }
+
+  private prepareChange(userId: number, change: TaskChange): AgentReply {
+    const action = this.pending.add(userId, { kind: "update_task", change });
+    logger.info("task_action_prepared", { userId, actionId: action.id, kind: action.kind, change });
+
+    const lines = [`✏️ <b>Зміна задачі</b> ${taskLink(change)}`, ""];
+    switch (change.field) {
+      case "status":
+        lines.push(`<b>Статус:</b> ${escapeHtml(change.from)} → <b>${escapeHtml(change.to)}</b>`);
+        break;
+      case "due_date":
+        lines.push(`<b>Дедлайн:</b> ${formatDueDate(change.from)} → <b>${formatDueDate(change.to)}</b>`);
+        break;
+      case "assignee":
+        lines.push(`<b>Виконавець:</b> ${escapeHtml(assigneeNames(change.from))} → <b>${escapeHtml(change.to.name)}</b>`);
+        break;
+    }
+    lines.push("", "Застосувати?");
+
+    return { text: lines.join("\n"), buttons: confirmButtons(action, "✅ Застосувати") };
+  }
+
+  private taskMenu(task: TaskData): AgentReply {
+    const assignees = (task.assignees || []).map((item) => ({ name: assigneeName(item) }));
+    const text = [
+      `✏️ <a href="${escapeAttr(taskUrl(task))}">${escapeHtml(task.name)}</a>`,
+      "",
+      `<b>Статус:</b> ${escapeHtml(statusName(task))}`,
+      `<b>Дедлайн:</b> ${formatDueDate(task.due_date ? Number(task.due_date) : null)}`,
+      `<b>Виконавець:</b> ${escapeHtml(assigneeNames(assignees))}`,
+      "",
+      "Що змінити?",
+    ].join("\n");
+
+    return { text, buttons: taskEditButtons(task.id) };
+  }
+
+  private async statusPicker(task: TaskData): Promise<AgentReply> {
+    const statuses = task.list ? await this.getListStatuses(task.list.id) : [];
+    const current = statusName(task).toLowerCase();
+    const buttons = statuses
+      .filter((status) => status.status.toLowerCase() !== current)
+      .map((status) => ({ text: status.status, callbackData: `task:set:status:${task.id}:${statusKey(status.status)}` }));
+
+    return {
+      text: `🔄 Новий статус для <b>${escapeHtml(task.name)}</b> (зараз: ${escapeHtml(statusName(task))}):`,
+      buttons: [...chunk(buttons, 2), ...this.backButton(task)],
+    };
+  }
+
+  private dueDatePicker(task: TaskData): AgentReply {
+    const today = DateTime.now().setZone(config.timezone).startOf("day");
+    const friday = today.set({ weekday: 5 });
+    const presets: Array<[string, DateTime]> = [
+      ["Сьогодні", today],
+      ["Завтра", today.plus({ days: 1 })],
+      ["П'ятниця", friday > today ? friday : friday.plus({ weeks: 1 })],
+      ["Понеділок", today.plus({ weeks: 1 }).startOf("week")],
+      ["+1 тиждень", today.plus({ weeks: 1 })],
+    ];
+    // Presets collide on some weekdays (e.g. Monday + 1 week) - keep the first label per date
+    const seen = new Set<string>();
+    const buttons = presets
+      .map(([label, date]) => ({ label, day: date.toFormat("yyyyMMdd"), date }))
+      .filter(({ day }) => !seen.has(day) && Boolean(seen.add(day)))
+      .map(({ label, day, date }) => ({
+        text: `${label} (${date.toFormat("dd.MM")})`,
+        callbackData: `task:set:due:${task.id}:${day}`,
+      }));
+
+    const current = formatDueDate(task.due_date ? Number(task.due_date) : null);
+    return {
+      text: `📅 Новий дедлайн для <b>${escapeHtml(task.name)}</b> (зараз: ${current}).\nІнша дата — напишіть, напр. «перенеси на 25.10».`,
+      buttons: [...chunk(buttons, 2), ...this.backButton(task)],
+    };
+  }
+
+  private assigneePicker(task: TaskData): AgentReply {
+    const currentIds = new Set((task.assignees || []).map((item) => String(item.id)));
+    const buttons = members
+      .filter((member) => !member.exclude_from_counts && !currentIds.has(String(member.id)))
+      .map((member) => ({ text: member.name, callbackData: `task:set:assignee:${task.id}:${member.id}` }));
+
+    return {
+      text: `👤 Кому передати <b>${escapeHtml(task.name)}</b>?`,
+      buttons: [...chunk(buttons, 2), ...this.backButton(task)],
+    };
+  }
+
+  private async commentsView(task: TaskData): Promise<AgentReply> {
+    const comments = await loadTaskComments(this.clickup, task.id, MENU_COMMENTS_LIMIT);
+    return {
+      text: [
+        `💬 <b>Коментарі</b> — <a href="${escapeAttr(taskUrl(task))}">${escapeHtml(task.name)}</a>`,
+        "",
+        formatCommentThread(comments),
+        "",
+        "<i>Відповісти — напишіть або надиктуйте: «відпиши в задачу … що …»</i>",
+      ].join("\n"),
+      buttons: this.backButton(task),
+    };
+  }
+
+  private backButton(task: TaskData): ReplyButton[][] {
+    return [[{ text: "⬅️ Назад", callbackData: `task:back:${task.id}` }]];
+  }
+
+  private async getListStatuses(listId: string, refresh = false): Promise<ListStatus[]> {
+    const cached = this.listStatuses.get(listId);
+    if (!refresh && cached && Date.now() - cached.loadedAt < STATUS_CACHE_TTL_MS) {
+      return cached.statuses;
+    }
+    const list = await this.clickup.get<{ statuses?: ListStatus[] }>(`/list/${listId}`);
+    const statuses = (list.statuses ?? []).slice().sort((a, b) => a.orderindex - b.orderindex);
+    this.listStatuses.set(listId, { statuses, loadedAt: Date.now() });
+    return statuses;
+  }
+
+  private async createTask(draft: TaskDraft): Promise<ActionResult> {
+    const task = await this.clickup.post<TaskData>(`/list/${draft.listId}/task`, {
+      name: draft.name,
+      description: draft.description,
+      assignees: [draft.assigneeId],
+      due_date: draft.dueDate,
+      due_date_time: false,
+    });
+
+    logger.info("task_created", { taskId: task.id, listId: draft.listId, assigneeId: draft.assigneeId });
+
+    const url = taskUrl(task);
+    return {
+      reply: {
+        text: `✅ Задачу створено: <a href="${escapeAttr(url)}">${escapeHtml(draft.name)}</a>\n👤 ${escapeHtml(draft.assigneeName)} • 📅 ${formatDueDate(draft.dueDate)}`,
+      },
+      task,
+      audit: {
+        action: "create_task",
+        taskId: task.id,
+        taskName: draft.name,
+        after: { listId: draft.listId, assigneeId: draft.assigneeId, dueDate: draft.dueDate ?? null },
+      },
+    };
+  }
+
+  private async postComment(comment: CommentDraft, userName?: string): Promise<ActionResult> {
+    // Posted with the bot's API token, so the real author is named in the text
+    const signature = userName ? `— ${userName}, через Telegram` : "— через Telegram";
+    const parts = [
+      ...comment.mentions.flatMap((mention) => [{ type: "tag", user: { id: mention.id } }, { text: " " }]),
+      { text: `${comment.text}\n\n${signature}` },
+    ];
+
+    await this.clickup.post(`/task/${comment.taskId}/comment`, { comment: parts, notify_all: false });
+    logger.info("task_comment_added", { taskId: comment.taskId, mentions: comment.mentions.length });
+
+    return {
+      reply: { text: `✅ Коментар додано до ${taskLink(comment)}` },
+      audit: {
+        action: "add_comment",
+        taskId: comment.taskId,
+        taskName: comment.taskName,
+        after: { text: comment.text, mentions: comment.mentions.map((mention) => mention.id) },
+      },
+    };
+  }
+
+  private async updateTask(change: TaskChange): Promise<ActionResult> {
+    let body: Record<string, unknown>;
+    let summary: string;
+    let audit: ActionResult["audit"];
+    const base = { taskId: change.taskId, taskName: change.taskName };
+
+    switch (change.field) {
+      case "status":
+        body = { status: change.to };
+        summary = `🔄 Статус: ${escapeHtml(change.from)} → <b>${escapeHtml(change.to)}</b>`;
+        audit = { ...base, action: "update_status", before: change.from, after: change.to };
+        break;
+      case "due_date":
+        body = { due_date: change.to, due_date_time: false };
+        summary = `📅 Дедлайн: ${formatDueDate(change.from)} → <b>${formatDueDate(change.to)}</b>`;
+        audit = { ...base, action: "update_due_date", before: change.from, after: change.to };
+        break;
+      case "assignee":
+        body = {
+          assignees: {
+            add: [change.to.id],
+            rem: change.from.map((item) => item.id).filter((id) => id !== change.to.id),
+          },
+        };
+        summary = `👤 Виконавець: ${escapeHtml(assigneeNames(change.from))} → <b>${escapeHtml(change.to.name)}</b>`;
+        audit = { ...base, action: "reassign", before: change.from, after: change.to };
+        break;
+    }
+
+    const task = await this.clickup.put<TaskData>(`/task/${change.taskId}`, body);
+    logger.info("task_updated", { taskId: change.taskId, field: change.field });
+
+    return {
+      reply: { text: `✅ Оновлено ${taskLink(change)}\n${summary}` },
+      task,
+      audit,
+    };
+  }
+}
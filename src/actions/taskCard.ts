@@ -0,0 +1,148 @@
+import { DateTime } from "luxon";
+import { config } from "../config/config";
+import { isOpenStatus } from "../config/statuses";
+import { assigneeName } from "../config/teamMembers";
+import { ClickUpClient } from "../clickup/client";
+import { ClickUpApiError, isClickUpError } from "../clickup/errors";
+import { isOverdue } from "../agent/deadlineRisk";
+import { PRIORITY_LABELS, getPriorityLevel } from "../agent/priority";
+import { TASK_ID_PATTERN } from "../agent/queryProcessor";
+import { TaskData } from "../agent/queryTypes";
+import { AgentReply } from "../agent/types";
+import { escapeAttr, escapeHtml } from "../utils/html";
+import { logger } from "../utils/logger";
+import { taskEditButtons } from "./taskActions";
+import { loadTaskComments } from "./taskComments";
+
+// https://app.clickup.com/t/<id>, or /t/<team id>/<custom id> for workspaces with custom task ids
+const TASK_LINK_PATTERN = /^https?:\/\/app\.clickup\.com\/t\/(?:(\d+)\/)?([A-Za-z0-9_-]+)\/?(?:[?#]\S*)?$/;
+
+const SUBTASKS_LIMIT = 10;
+const COMMENT_PREVIEW_LENGTH = 300;
+
+export type TaskReference = { id: string; custom: boolean };
+
+/**
+ * A message that is nothing but a task link or a task id ("86c1abcde", "#86c1abcde").
+ * Anything more ("перенеси https://… на понеділок") is a request for the model, and so
+ * is a bare number - member ids and order numbers look like ids but never have letters.
+ */
+export const parseTaskReference = (text: string): TaskReference | null => {
+  const value = text.trim();
+  const link = TASK_LINK_PATTERN.exec(value);
+  if (link) {
+    return { id: link[2], custom: Boolean(link[1]) };
+  }
+  const bare = value.replace(/^#/, "");
+  return TASK_ID_PATTERN.test(bare) && /[a-z]/.test(bare) ? { id: bare, custom: false } : null;
+};
+
+const statusName = (task: TaskData): string =>
+  typeof task.status === "string" ? task.status : task.status?.status || "—";
+
+const formatHours = (ms: number): string => `${Math.floor(ms / 3600000)}г ${Math.floor((ms % 3600000) / 60000)}хв`;
+
+const formatDue = (task: TaskData, now: DateTime): string => {
+  if (!task.due_date) {
+    return "—";
+  }
+  const due = DateTime.fromMillis(Number(task.due_date)).setZone(config.timezone);
+  const text = due.setLocale("uk").toFormat("ccc, dd.MM");
+  if (!isOverdue(task, now)) {
+    return text;
+  }
+  const daysLate = Math.floor(now.startOf("day").diff(due.startOf("day"), "days").days);
+  return `${text} 🔴 прострочено на ${daysLate} дн.`;
+};
+
+const formatTimeTracked = (task: TaskData): string => {
+  const spent = Number(task.time_spent) || 0;
+  const estimate = Number(task.time_estimate) || 0;
+  if (!estimate) {
+    return spent ? `${formatHours(spent)} (без оцінки)` : "—";
+  }
+  const percent = Math.round((spent / estimate) * 100);
+  return `${formatHours(spent)} з ${formatHours(estimate)} (${percent}%)${spent > estimate ? " ⚠️" : ""}`;
+};
+
+const truncate = (text: string, max: number): string => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+/**
+ * Fetch a task with its subtasks and latest comment and render the detail card.
+ * Returns null when the task can't be loaded (unknown id, timeout, ClickUp error),
+ * so the text goes to the model instead of ending in an error reply.
+ */
+export const loadTaskCard = async (clickup: ClickUpClient, ref: TaskReference): Promise<AgentReply | null> => {
+  let task: TaskData;
+  try {
+    task = await clickup.get<TaskData>(`/task/${ref.id}`, {
+      include_subtasks: true,
+      ...(ref.custom ? { custom_task_ids: true, team_id: config.clickup.teamId } : {}),
+    });
+  } catch (error) {
+    // ClickUp answers 401 rather than 404 for ids outside the workspace
+    if (error instanceof ClickUpApiError && (error.status === 404 || error.status === 401)) {
+      logger.info("task_card_not_found", { taskId: ref.id, status: error.status });
+      return null;
+    }
+    if (isClickUpError(error)) {
+      logger.error("task_card_load_failed", { taskId: ref.id, error: String(error) });
+      return null;
+    }
+    throw error;
+  }
+
+  // The card is still useful without its latest comment
+  const [latestComment] = await loadTaskComments(clickup, task.id, 1).catch((error) => {
+    logger.error("task_card_comment_failed", { taskId: task.id, error: String(error) });
+    return [];
+  });
+  const now = DateTime.now().setZone(config.timezone);
+  const url = task.url || `https://app.clickup.com/t/${task.id}`;
+  const assignees = (task.assignees || []).map((item) => assigneeName(item));
+  const location = [task.space?.name, task.folder?.name, task.list?.name].filter(Boolean).join(" / ");
+
+  const lines = [`📌 <a href="${escapeAttr(url)}"><b>${escapeHtml(task.name)}</b></a>`];
+  if (location) {
+    lines.push(`📂 ${escapeHtml(location)}`);
+  }
+  lines.push("");
+  lines.push(`<b>Статус:</b> ${escapeHtml(statusName(task))}`);
+  lines.push(`<b>Виконавці:</b> ${escapeHtml(assignees.join(", ") || "—")}`);
+  lines.push(`<b>Дедлайн:</b> ${formatDue(task, now)}`);
+  const priority = getPriorityLevel(task);
+  if (priority) {
+    lines.push(`<b>Пріоритет:</b> ${PRIORITY_LABELS[priority]}`);
+  }
+  lines.push(`<b>Час:</b> ${formatTimeTracked(task)}`);
+  if (task.date_updated) {
+    const updated = DateTime.fromMillis(Number(task.date_updated)).setZone(config.timezone);
+    lines.push(`<b>Оновлено:</b> ${updated.setLocale("uk").toRelative({ base: now }) ?? "—"} (${updated.toFormat("dd.MM HH:mm")})`);
+  }
+
+  const subtasks = task.subtasks ?? [];
+  if (subtasks.length > 0) {
+    lines.push("", `<b>Підзадачі (${subtasks.length}):</b>`);
+    for (const subtask of subtasks.slice(0, SUBTASKS_LIMIT)) {
+      lines.push(`${isOpenStatus(subtask) ? "▫️" : "✅"} ${escapeHtml(subtask.name)} — ${escapeHtml(statusName(subtask))}`);
+    }
+    if (subtasks.length > SUBTASKS_LIMIT) {
+      lines.push(`<i>+ ще ${subtasks.length - SUBTASKS_LIMIT}</i>`);
+    }
+  }
+
+  if (latestComment) {
+    lines.push(
+      "",
+      `💬 <b>${escapeHtml(latestComment.author)}</b> · ${latestComment.date}`,
+      escapeHtml(truncate(latestComment.text, COMMENT_PREVIEW_LENGTH))
+    );
+  }
+
+  logger.info("task_card_built", { taskId: task.id, subtasks: subtasks.length, hasComment: Boolean(latestComment) });
+
+  return {
+    text: lines.join("\n"),
+    buttons: [...taskEditButtons(task.id), [{ text: "🔗 Відкрити в ClickUp", url }]],
+  };
+};
@@ -0,0 +1,56 @@
+import { DateTime } from "luxon";
+import { config } from "../config/config";
+import { findMemberById } from "../config/teamMembers";
+import { ClickUpClient } from "../clickup/client";
+import { escapeHtml } from "../utils/html";
+import { logger } from "../utils/logger";
+
+// Long comments are cut for the model and for Telegram; the full text stays in ClickUp
+const MAX_COMMENT_LENGTH = 500;
+
+export type TaskComment = {
+  id: string;
+  author: string;
+  date: string;
+  text: string;
+};
+
+type RawComment = {
+  id: string;
+  comment_text?: string;
+  user?: { id: number; username?: string };
+  date: string;
+};
+
+const truncate = (text: string, max: number): string => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+/**
+ * Latest comments on a task, oldest first so the thread reads top to bottom.
+ */
+export const loadTaskComments = async (
+  clickup: ClickUpClient,
+  taskId: string,
+  limit: number
+): Promise<TaskComment[]> => {
+  const response = await clickup.get<{ comments?: RawComment[] }>(`/task/${taskId}/comment`);
+  // ClickUp returns newest first
+  const comments = (response.comments ?? []).slice(0, limit).reverse();
+
+  logger.info("task_comments_loaded", { taskId, total: response.comments?.length ?? 0, returned: comments.length });
+
+  return comments.map((comment) => ({
+    id: comment.id,
+    author: (comment.user && findMemberById(comment.user.id)?.name) || comment.user?.username || "—",
+    date: DateTime.fromMillis(Number(comment.date)).setZone(config.timezone).toFormat("dd.MM HH:mm"),
+    text: truncate((comment.comment_text ?? "").trim(), MAX_COMMENT_LENGTH),
+  }));
+};
+
+export const formatCommentThread = (comments: TaskComment[]): string => {
+  if (comments.length === 0) {
+    return "<i>Коментарів немає.</i>";
+  }
+  return comments
+    .map((comment) => `<b>${escapeHtml(comment.author)}</b> · ${comment.date}\n${escapeHtml(comment.text)}`)
+    .join("\n\n");
+};
@@ -1,28 +1,104 @@
 import OpenAI from "openai";
+import { randomBytes } from "crypto";
 import { DateTime } from "luxon";
 import { departmentKeys, departments, normalizeDepartmentKey } from "../config/departments";
 import { config } from "../config/config";
+import { isOpenStatus } from "../config/statuses";
 import { ConversationStore, StoredMessage } from "../storage/types";
+import { escapeHtml } from "../utils/html";
 import { logger } from "../utils/logger";
+import { ClickUpClient, clickupClient } from "../clickup/client";
+import { isClickUpError } from "../clickup/errors";
+import { TaskWebhookEvent } from "../clickup/webhooks";
 import { loadSystemPrompt } from "../utils/promptLoader";
 import { generateOverdueStats } from "./statistics";
+import { generateBlockerReport } from "./blockerReport";
+import { generateMorningDigest } from "./morningDigest";
+import { PERIOD_KEYS, RANGE_PERIOD_KEYS, resolveDateRange, resolvePeriod, RangeArg, resolveRange } from "./periods";
+import { generateThroughputReport } from "./throughputReport";
+import { generateStatusTimeReport } from "./statusTimeReport";
+import { loadTimeInStatus } from "./timeInStatus";
 import { QueryProcessor } from "./queryProcessor";
-import { EntityType, FilterType, OperationType } from "./queryTypes";
+import {
+  CustomFieldFilter, DateRange, EntityType, FilterMode, FilterType, GroupBy, OperationType, PriorityLevel, SortBy, SortOrder,
+} from "./queryTypes";
+import { formatTaskListPages } from "./taskListFormatter";
+import { formatTaskCount, formatTaskStats } from "./taskSummaryFormatter";
+import { searchTasks } from "./taskSearch";
+import { PRIORITY_LEVELS, getPriorityLevel, getPriorityWeight } from "./priority";
 import members from "../config/members.json";
+import { findMemberById, findMemberByText, members as teamMembers } from "../config/teamMembers";
+import { ACTION_CALLBACK_PATTERN, TaskActions, parseTaskCallback } from "../actions/taskActions";
+import { loadTaskComments } from "../actions/taskComments";
+import { loadTaskCard, parseTaskReference } from "../actions/taskCard";
+import { AgentReply, ReplyButton } from "./types";
+import { ReportService } from "../reports/reportService";
+import { REPORT_TYPES, ReportQuery, ReportResult, ReportType } from "../reports/types";
+
+const ENTITY_TYPES: EntityType[] = ["person", "department", "list", "folder", "space", "all"];
+const GROUP_BY_VALUES: GroupBy[] = ["project", "person", "status", "priority", "due_week"];
+const SORT_BY_VALUES: SortBy[] = ["due_date", "overdue_days", "updated", "priority"];
+
+// page:<list id>:<page index> - ◀ ▶ under a paged task list
+export const PAGE_CALLBACK_PATTERN = /^page:([0-9a-f]+):(\d+)$/;
+
+/**
+ * ◀ n/N ▶ under a page. The middle button re-shows the page, so every button stays a valid callback.
+ */
+const pageNavigation = (listId: string, page: number, total: number): ReplyButton[] => [
+  ...(page > 0 ? [{ text: "◀", callbackData: `page:${listId}:${page - 1}` }] : []),
+  { text: `${page + 1}/${total}`, callbackData: `page:${listId}:${page}` },
+  ...(page < total - 1 ? [{ text: "▶", callbackData: `page:${listId}:${page + 1}` }] : []),
+];
+
+// Tools whose entityType/entityId/entityName go through resolveScope first
+const SCOPED_TOOLS = new Set(["load_and_filter_tasks", "search_tasks", "get_status_time_report"]);
 
 type AgentOptions = {
   model: string;
   temperature?: number;
 };
 
-type MemberConfig = {
-  id: number;
-  name: string;
-  username?: string;
-  email?: string;
-  aliases?: string[];
-  role?: string;
-  exclude_from_counts?: boolean;
+// Shared schema for the closed/due/created/updated ranges of load_and_filter_tasks
+const dateRangeParameter = (description: string) => ({
+  type: "object",
+  properties: {
+    period: { type: "string", enum: [...RANGE_PERIOD_KEYS], description: "Whole calendar period" },
+    from: { type: "string", description: "Range start, YYYY-MM-DD. Overrides period." },
+    to: { type: "string", description: "Range end, YYYY-MM-DD. Overrides period." },
+  },
+  description,
+});
+
+const DATE_RANGE_ARGS = ["closedDate", "dueDate", "createdDate", "updatedDate"] as const;
+
+type DateRangeArg = (typeof DATE_RANGE_ARGS)[number];
+
+/**
+ * Every date range of a load_and_filter_tasks call, or the first argument that doesn't parse.
+ * closedDate only applies to closed tasks: it defaults to this week and ends now at the latest.
+ */
+const resolveTaskRanges = (
+  args: Partial<Record<DateRangeArg, RangeArg>>,
+  completed: boolean
+): { ranges: Partial<Record<DateRangeArg, DateRange>> } | { invalid: DateRangeArg } => {
+  const ranges: Partial<Record<DateRangeArg, DateRange>> = {};
+  for (const name of DATE_RANGE_ARGS) {
+    const arg = args[name];
+    let range: DateRange | null;
+    if (name === "closedDate") {
+      if (!completed) continue;
+      range = resolveDateRange({ period: arg?.period, dateFrom: arg?.from, dateTo: arg?.to }, "this_week");
+    } else {
+      if (!arg) continue;
+      range = resolveRange(arg);
+    }
+    if (!range) {
+      return { invalid: name };
+    }
+    ranges[name] = range;
+  }
+  return { ranges };
 };
 
 const buildSystemPrompt = (context: {
@@ -56,34 +132,229 @@ const buildSystemPrompt = (context: {
 
 export class Agent {
   private queryProcessor: QueryProcessor;
+  private taskActions: TaskActions;
+  private reportService: ReportService;
 
   constructor(
     private openai: OpenAI,
     private store: ConversationStore,
-    private options: AgentOptions
+    private options: AgentOptions,
+    private clickup: ClickUpClient = clickupClient
   ) {
-    this.queryProcessor = new QueryProcessor();
+    this.queryProcessor = new QueryProcessor(clickup);
+    this.taskActions = new TaskActions(clickup);
+    this.reportService = new ReportService(this.queryProcessor);
   }
 
-  private buildHistoryMessages(history: StoredMessage[]): Array<{ role: "user" | "assistant" | "system" | "tool"; content: string; tool_call_id?: string; name?: string }> {
-    return history.map((message) => ({
-      role: message.role as any,
-      content: message.content,
+  /**
+   * Force a full resync of the cached ClickUp tasks. Returns the number of tasks loaded.
+   */
+  async refreshTasks(): Promise<number> {
+    return this.queryProcessor.refresh();
+  }
+
+  /**
+   * Keep the task snapshot in sync with a ClickUp webhook event.
+   */
+  async applyTaskEvent(event: TaskWebhookEvent): Promise<void> {
+    await this.queryProcessor.applyTaskEvent(event);
+  }
+
+  enableLiveUpdates(): void {
+    this.queryProcessor.enableLiveUpdates();
+  }
+
+  /**
+   * Run a ready-made team report (bot commands and the get_team_report tool) and remember it
+   * as the user's last report. Unknown departments get the list of valid keys instead.
+   */
+  async runReport(userId: number, query: ReportQuery): Promise<ReportResult> {
+    const department = query.department ? normalizeDepartmentKey(query.department) : undefined;
+    if (query.department && !department) {
+      return {
+        text: `Невідомий відділ «${escapeHtml(query.department)}». Доступні: ${escapeHtml(departmentKeys.join(", "))}`,
+        hasMore: false,
+      };
+    }
+    logger.info("team_report_start", { userId, type: query.type, department, days: query.days, limit: query.limit });
+    const report = await this.reportService.runReport({ ...query, department });
+    // The store replaces the whole state - keep the last person for follow-ups
+    const state = await this.store.getState(userId);
+    await this.store.updateState(userId, { ...state, lastReportType: query.type, department, lastDays: query.days });
+    return report;
+  }
+
+  /**
+   * A person's task list for the menu buttons: the same cards as load_and_filter_tasks
+   * without a model round-trip. The person becomes the context for follow-up questions.
+   */
+  async showPersonTasks(userId: number, personId: string, filterType: FilterType): Promise<AgentReply> {
+    const entityName = findMemberById(personId)?.name ?? personId;
+    logger.info("menu_person_tasks_start", { userId, personId, filterType });
+    const { tasks, truncatedSources, hierarchy } = await this.queryProcessor.processQuery({
+      entityType: 'person',
+      entityId: personId,
+      entityName,
+      filterType,
+      operation: 'show'
+    });
+    const state = await this.store.getState(userId);
+    await this.store.updateState(userId, { ...state, lastPersonId: personId, lastPersonName: entityName });
+    return this.paginate(userId, formatTaskListPages({
+      tasks,
+      filterType,
+      headerName: entityName,
+      truncatedSources,
+      cacheAgeMs: this.queryProcessor.getCacheAgeMs(),
+      hierarchy,
     }));
   }
 
-  private findMemberByText(textLower: string, membersList: MemberConfig[]): MemberConfig | null {
-    for (const member of membersList) {
-      const candidates = [member.name, member.username, ...(member.aliases || [])]
-        .filter(Boolean) as string[];
-      for (const candidate of candidates) {
-        const candidateLower = candidate.toLowerCase();
-        if (candidateLower && textLower.includes(candidateLower)) {
-          return member;
+  /**
+   * First page of a task list. Longer lists are stored with an id and get ◀ ▶ on every page;
+   * if storing fails, the first page goes out without them.
+   */
+  private async paginate(userId: number, pages: AgentReply[]): Promise<AgentReply> {
+    if (pages.length === 1) {
+      return pages[0];
+    }
+    const id = randomBytes(6).toString("hex");
+    const withNavigation = pages.map((page, index) => ({
+      text: page.text,
+      buttons: [...(page.buttons ?? []), pageNavigation(id, index, pages.length)],
+    }));
+    try {
+      await this.store.saveTaskList({ id, userId, pages: withNavigation });
+    } catch (error) {
+      logger.error("task_list_save_failed", { userId, id, error: String(error) });
+      return pages[0];
+    }
+    logger.info("task_list_paged", { userId, id, pages: pages.length });
+    return withNavigation[0];
+  }
+
+  /**
+   * ◀ ▶ press on a paged task list. Null when the list is gone (trimmed or another user's).
+   */
+  async handlePageCallback(userId: number, callbackData: string): Promise<AgentReply | null> {
+    const match = PAGE_CALLBACK_PATTERN.exec(callbackData);
+    if (!match) {
+      return null;
+    }
+    const [, id, page] = match;
+    const list = await this.store.getTaskList(userId, id);
+    if (!list) {
+      logger.info("task_list_page_missing", { userId, id });
+      return null;
+    }
+    return list.pages[Math.min(Number(page), list.pages.length - 1)];
+  }
+
+  /**
+   * Morning overview with tasks at risk of missing their deadline, for /morning and the scheduled send.
+   */
+  async buildMorningDigest(): Promise<string> {
+    return generateMorningDigest(await this.queryProcessor.getAllTasks(), config.morningDigest.withinDays);
+  }
+
+  /**
+   * Handle a Confirm/Cancel button press on a pending write action.
+   * Confirmed changes are written to the audit log under the Telegram user.
+   */
+  async handleActionCallback(userId: number, callbackData: string, userName?: string): Promise<AgentReply | null> {
+    const match = ACTION_CALLBACK_PATTERN.exec(callbackData);
+    if (!match) {
+      return null;
+    }
+    const [, decision, actionId] = match;
+
+    if (decision === "cancel") {
+      return this.taskActions.cancel(userId, actionId);
+    }
+
+    const { reply, task, audit } = await this.taskActions.confirm(userId, actionId, userName);
+    if (task) {
+      this.queryProcessor.upsertTask(task);
+    }
+    if (audit) {
+      // The change is already in ClickUp - a failed audit write must not hide that from the user
+      await this.store.saveAuditEntry({ ...audit, userId, userName }).catch((error) => {
+        logger.error("agent_audit_failed", { userId, audit, error: String(error) });
+      });
+    }
+    await this.store.saveMessage(userId, "assistant", reply.text);
+    return reply;
+  }
+
+  /**
+   * Detail card for a message that is just a task link or id. Null for any other
+   * text (or an id ClickUp doesn't know) - the caller then asks the model as usual.
+   */
+  async handleTaskReference(userId: number, text: string): Promise<AgentReply | null> {
+    const ref = parseTaskReference(text);
+    if (!ref) {
+      return null;
+    }
+    const card = await loadTaskCard(this.clickup, ref);
+    if (!card) {
+      return null;
+    }
+    // Kept in history so "перенеси її на понеділок" right after the card has its task
+    await this.store.saveMessage(userId, "user", text);
+    await this.store.saveMessage(userId, "assistant", card.text);
+    return card;
+  }
+
+  /**
+   * Handle the inline task edit buttons (task:menu / task:pick / task:set).
+   */
+  async handleTaskCallback(userId: number, callbackData: string): Promise<AgentReply | null> {
+    const callback = parseTaskCallback(callbackData);
+    if (!callback) {
+      return null;
+    }
+    const lookup = await this.queryProcessor.findTask(callback.taskId);
+    if ("error" in lookup) {
+      return { text: "⌛ Задачу не знайдено — можливо, її вже закрито або видалено." };
+    }
+    return this.taskActions.handleTaskCallback(userId, lookup.task, callback);
+  }
+
+  /**
+   * Scope arguments of the task tools: department keys and aliases become canonical keys,
+   * list/folder/space names become ClickUp ids. `{ error }` goes back to the model.
+   */
+  private async resolveScope(args: { entityType?: string; entityId?: string; entityName?: string }): Promise<
+    { entityId?: string; entityName?: string } | { error: string }
+  > {
+    switch (args.entityType) {
+      case "department": {
+        const key = normalizeDepartmentKey(args.entityId) ?? normalizeDepartmentKey(args.entityName);
+        if (!key) {
+          return { error: `Unknown department '${args.entityId ?? args.entityName}'. Use one of: ${departmentKeys.join(", ")}` };
         }
+        return { entityId: key, entityName: args.entityName || key };
       }
+      case "list":
+      case "folder":
+      case "space": {
+        const ref = args.entityId || args.entityName;
+        if (!ref) {
+          return { error: `entityId or entityName is required for a ${args.entityType} query.` };
+        }
+        const location = await this.queryProcessor.findLocation(args.entityType, ref);
+        return "error" in location ? location : { entityId: location.id, entityName: location.name };
+      }
+      default:
+        return { entityId: args.entityId, entityName: args.entityName };
     }
-    return null;
+  }
+
+  private buildHistoryMessages(history: StoredMessage[]): Array<{ role: "user" | "assistant" | "system" | "tool"; content: string; tool_call_id?: string; name?: string }> {
+    return history.map((message) => ({
+      role: message.role as any,
+      content: message.content,
+    }));
   }
 
   private buildTeamInfoResponse(text: string): string | null {
@@ -101,12 +372,8 @@ export class Agent {
       return null;
     }
 
-    const membersList = members as MemberConfig[];
-    const visibleMembers = membersList.filter((m) => !m.exclude_from_counts);
-    const escapeHtml = (value: string) =>
-      value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
-
-    const matchedMember = this.findMemberByText(textLower, membersList);
+    const visibleMembers = teamMembers.filter((m) => !m.exclude_from_counts);
+    const matchedMember = findMemberByText(textLower);
     if (isRoleQuery && matchedMember) {
       const roleText = matchedMember.role || "роль не вказана";
       return `👤 <b>${escapeHtml(matchedMember.name)}</b>\n<b>Роль:</b> ${escapeHtml(roleText)}`;
@@ -145,27 +412,127 @@ export class Agent {
             properties: {
               entityType: {
                 type: "string",
-                enum: ["person", "department", "all"],
-                description: "What to query: 'person' for specific person, 'department' for project/department, 'all' for all tasks"
+                enum: [...ENTITY_TYPES],
+                description: "What to query: 'person' for specific person, 'department' for a project/department or a group of them, 'list'/'folder'/'space' for one ClickUp list, folder or space, 'all' for all tasks"
               },
               entityId: {
                 type: "string",
-                description: "Person ID (e.g. '100636815') or project key (e.g. 'botox', 'kyt_group', 'all_clients'). Required for person/department queries."
+                description: "Person ID (e.g. '100636815'), project or group key (e.g. 'botox', 'kyt_group', 'all_clients'), or ClickUp list/folder/space ID. Required for person/department queries."
               },
               entityName: {
                 type: "string",
-                description: "Person name (e.g. 'Ilya Senchuk') or project name (e.g. 'Botox', 'KYT Group')"
+                description: "Person name (e.g. 'Ilya Senchuk'), project name (e.g. 'Botox', 'KYT Group') or list/folder/space name (e.g. 'Sales projects') - enough for list/folder/space without an ID"
               },
               filterType: {
                 type: "string",
-                enum: ["none", "overdue", "stuck", "due_today", "in_progress"],
-                description: "Filter to apply: 'none' (all tasks), 'overdue' (past due), 'stuck' (no due date, old), 'due_today' (due today), 'in_progress' (currently in work)"
+                enum: ["none", "overdue", "stuck", "due_today", "due_soon", "at_risk", "in_progress", "blocked", "completed"],
+                description: "Filter to apply: 'none' (all tasks), 'overdue' (past due), 'stuck' (no due date, old), 'due_today' (due today), 'due_soon' (due within withinDays days - 'що горить найближчими днями'), 'at_risk' (due soon but not updated for 2+ days or not started - 'що може зірватися'), 'in_progress' (currently in work), 'blocked' (waiting on another open task), 'completed' (closed in the period)"
+              },
+              filters: {
+                type: "array",
+                items: { type: "string", enum: ["overdue", "stuck", "due_today", "due_soon", "at_risk", "in_progress", "blocked", "completed"] },
+                description: "Several filters at once, e.g. ['overdue', 'due_today'] for 'прострочені і на сьогодні'. Set filterType to the first of them."
+              },
+              filterMode: {
+                type: "string",
+                enum: ["or", "and"],
+                description: "How `filters` combine: 'or' (default) - a task matches any of them, 'and' - all of them (e.g. 'заблоковані і прострочені' → and)"
+              },
+              withinDays: {
+                type: "integer",
+                minimum: 0,
+                maximum: 60,
+                description: "For 'due_soon'/'at_risk' only: how many days ahead to look, counting from today ('на 5 днів' → 5; 'цього тижня' → days left until Sunday). Default 3."
+              },
+              departmentId: {
+                type: "string",
+                description: "For 'person' only: keep just their tasks in this department/project key (e.g. 'botox' for 'задачі Аліни по ботоксу')"
+              },
+              dueDate: dateRangeParameter("Due date range ('дедлайн цього тижня' → {period: 'this_week'}, 'дедлайн до 25 жовтня' → {to: '2025-10-25'}). Tasks without a due date drop out."),
+              createdDate: dateRangeParameter("Creation date range ('створені в жовтні' → {from: '2025-10-01', to: '2025-10-31'})"),
+              updatedDate: dateRangeParameter("Last update range ('оновлені сьогодні' → {period: 'today'})"),
+              closedDate: dateRangeParameter("For 'completed' only: when the tasks were closed ('за тиждень' → {period: 'this_week'}, 'вчора' → {period: 'yesterday'}, 'з 1 жовтня' → {from: '2025-10-01'}). Default this_week."),
+              priority: {
+                type: "array",
+                items: { type: "string", enum: PRIORITY_LEVELS },
+                description: "Only tasks with these ClickUp priorities, e.g. ['urgent'] for 'термінові', ['urgent', 'high'] for 'важливі'. Omit for any priority."
+              },
+              tag: {
+                type: "string",
+                description: "Only tasks with this ClickUp tag (e.g. 'seo' for 'задачі з тегом seo')"
+              },
+              customField: {
+                type: "string",
+                description: "Custom field name to filter by (e.g. 'Клієнт', 'Канал', 'Бюджет'). Use together with customFieldValue."
+              },
+              customFieldValue: {
+                type: "string",
+                description: "Value the custom field must have (e.g. 'Instagram')"
+              },
+              customFieldMatch: {
+                type: "string",
+                enum: ["equals", "contains"],
+                description: "'equals' (default) for exact value, 'contains' for partial text match"
+              },
+              groupBy: {
+                type: "string",
+                enum: [...GROUP_BY_VALUES],
+                description: "How to group the list: 'project' (default), 'person' ('по людях'), 'status' ('по статусах'), 'priority', 'due_week' ('по тижнях дедлайну')"
+              },
+              groupByField: {
+                type: "string",
+                description: "Group the list by this custom field's value instead (e.g. 'Канал' for 'по каналах'). Overrides groupBy."
+              },
+              sortBy: {
+                type: "string",
+                enum: [...SORT_BY_VALUES],
+                description: "Order: 'due_date' (earliest first), 'overdue_days' (most overdue first - 'найстаріші спочатку' for overdue), 'updated' (most recently updated first), 'priority' (urgent first). Omit for the filter's default order."
+              },
+              sortOrder: {
+                type: "string",
+                enum: ["asc", "desc"],
+                description: "Only to reverse sortBy's default, e.g. 'updated' + 'asc' for 'найдовше без оновлень'"
+              },
+              operation: {
+                type: "string",
+                enum: ["show", "count", "stats"],
+                description: "'show' (default) - task cards; 'count' - just the number with breakdown by status, person and project ('скільки прострочених у маркетингу'); 'stats' - totals, overdue share, average days overdue, oldest stuck task ('статистика по botox', 'який стан справ у Ігоря')"
               }
             },
             required: ["entityType", "filterType"]
           }
         }
       },
+      {
+        type: "function" as const,
+        function: {
+          name: "search_tasks",
+          description: "Find open tasks by what they are about - keyword search over task names and descriptions, best matches first. Use for 'знайди задачу про лендинг', 'де задача з рахунком для клієнта', 'is there a task about CRM'",
+          parameters: {
+            type: "object",
+            properties: {
+              query: {
+                type: "string",
+                description: "Keywords from the user's message, any form or language (e.g. 'лендинг botox', 'рахунок клієнту'). Leave out words like 'задача', 'знайди'."
+              },
+              entityType: {
+                type: "string",
+                enum: [...ENTITY_TYPES],
+                description: "Search scope, default 'all'"
+              },
+              entityId: {
+                type: "string",
+                description: "Person ID, department key or list/folder/space ID when the search is scoped"
+              },
+              entityName: {
+                type: "string",
+                description: "Person, department or list/folder/space name"
+              }
+            },
+            required: ["query"]
+          }
+        }
+      },
       {
         type: "function" as const,
         function: {
@@ -187,6 +554,251 @@ export class Agent {
           }
         }
       },
+      {
+        type: "function" as const,
+        function: {
+          name: "create_task",
+          description: "Create a new ClickUp task. The user gets a confirmation card with Confirm/Cancel buttons; the task is created only after they confirm. Use for requests like 'створи задачу Ігорю в botox на п'ятницю: оновити лендинг'.",
+          parameters: {
+            type: "object",
+            properties: {
+              assignee: {
+                type: "string",
+                description: "Person ID or name/alias exactly as the user said it (e.g. 'Ігорю', '242567466')"
+              },
+              project: {
+                type: "string",
+                description: "Project key or name (e.g. 'botox', 'kyt_group')"
+              },
+              name: {
+                type: "string",
+                description: "Task title, in the user's language"
+              },
+              description: {
+                type: "string",
+                description: "Optional longer description"
+              },
+              dueDate: {
+                type: "string",
+                description: "Due date as YYYY-MM-DD, resolved from phrases like 'на п'ятницю' using today's date"
+              }
+            },
+            required: ["assignee", "project", "name"]
+          }
+        }
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "update_task_status",
+          description: "Move an existing task to another status of its list. The user confirms the change with a button. Use for 'перенеси в готово', 'постав статус в роботі'.",
+          parameters: {
+            type: "object",
+            properties: {
+              task: {
+                type: "string",
+                description: "Task ID (from the task link, e.g. '86c1abcde') or the task name as the user said it"
+              },
+              status: {
+                type: "string",
+                description: "Target status name as the user said it (e.g. 'в роботі', 'complete')"
+              }
+            },
+            required: ["task", "status"]
+          }
+        }
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "update_task_due_date",
+          description: "Move the due date of an existing task. The user confirms the change with a button. Use for 'перенеси на понеділок'.",
+          parameters: {
+            type: "object",
+            properties: {
+              task: {
+                type: "string",
+                description: "Task ID (from the task link, e.g. '86c1abcde') or the task name as the user said it"
+              },
+              dueDate: {
+                type: "string",
+                description: "New due date as YYYY-MM-DD, resolved from phrases like 'на понеділок' using today's date"
+              }
+            },
+            required: ["task", "dueDate"]
+          }
+        }
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "reassign_task",
+          description: "Hand an existing task over to another team member (replaces current assignees). The user confirms the change with a button.",
+          parameters: {
+            type: "object",
+            properties: {
+              task: {
+                type: "string",
+                description: "Task ID (from the task link, e.g. '86c1abcde') or the task name as the user said it"
+              },
+              assignee: {
+                type: "string",
+                description: "Person ID or name/alias exactly as the user said it (e.g. 'Ігорю', '242567466')"
+              }
+            },
+            required: ["task", "assignee"]
+          }
+        }
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "get_task_comments",
+          description: "Fetch the latest comments of a task to explain why it is stuck or what is going on. Summarize them for the user in Ukrainian.",
+          parameters: {
+            type: "object",
+            properties: {
+              task: {
+                type: "string",
+                description: "Task ID (from the task link, e.g. '86c1abcde') or the task name as the user said it"
+              },
+              limit: {
+                type: "number",
+                description: "How many latest comments to read (default 10, max 30)"
+              }
+            },
+            required: ["task"]
+          }
+        }
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "add_comment",
+          description: "Post a comment to a task on behalf of the user (signed with their Telegram name). The user confirms with a button. Use for 'відпиши в задачу …', 'напиши в коментар …'.",
+          parameters: {
+            type: "object",
+            properties: {
+              task: {
+                type: "string",
+                description: "Task ID (from the task link, e.g. '86c1abcde') or the task name as the user said it"
+              },
+              text: {
+                type: "string",
+                description: "Comment text, in the user's words (clean up voice transcription, do not add your own content)"
+              },
+              mentionAssignee: {
+                type: "boolean",
+                description: "true to @mention the task's assignees so they get notified ('тегни', 'згадай виконавця')"
+              }
+            },
+            required: ["task", "text"]
+          }
+        }
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "get_blocker_report",
+          description: "Report of overdue tasks that block other people's or other projects' tasks, with the chains of waiting tasks. Use for 'хто кого блокує', 'що гальмує інших', 'ланцюжки блокерів'",
+          parameters: {
+            type: "object",
+            properties: {}
+          }
+        }
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "get_team_report",
+          description: "Ready team report: 'overdue' (overdue count, top assignees, oldest tasks - 'звіт по простроченим'), 'not_updated_today' (tasks due today nobody updated today, by person - 'хто сьогодні не оновлював задачі'), 'stale_n_days' (not updated for N days - 'що не чіпали 2 тижні'), 'active_tasks' (open tasks of a department, recently updated first)",
+          parameters: {
+            type: "object",
+            properties: {
+              type: {
+                type: "string",
+                enum: [...REPORT_TYPES],
+              },
+              department: {
+                type: "string",
+                description: "Department or group key (e.g. 'botox', 'all_clients'). Required for 'active_tasks', omit for the whole team otherwise."
+              },
+              days: {
+                type: "integer",
+                minimum: 1,
+                description: "For 'stale_n_days' only: days without updates (default 7; '2 тижні' → 14)"
+              },
+              limit: {
+                type: "integer",
+                minimum: 1,
+                maximum: 50,
+                description: "How many tasks to list (default 10)"
+              }
+            },
+            required: ["type"]
+          }
+        }
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "get_throughput_report",
+          description: "Created vs. closed tasks per person and per department for a period. Use for 'скільки закрили за тиждень', 'продуктивність команди', 'звіт по виконаних'",
+          parameters: {
+            type: "object",
+            properties: {
+              period: {
+                type: "string",
+                enum: [...PERIOD_KEYS],
+                description: "Time period, default last_week (Monday reviews)"
+              },
+              dateFrom: {
+                type: "string",
+                description: "Custom range start, YYYY-MM-DD. Overrides period."
+              },
+              dateTo: {
+                type: "string",
+                description: "Custom range end, YYYY-MM-DD. Default today."
+              }
+            }
+          }
+        }
+      },
+      {
+        type: "function" as const,
+        function: {
+          name: "get_status_time_report",
+          description: "How long tasks stay in each status (median / 90th percentile per department), cycle time of closed tasks, and open tasks stuck in a status longer than usual. Use for 'скільки задачі висять на затвердженні', 'середній цикл задачі в маркетингу', 'де затримуються задачі'",
+          parameters: {
+            type: "object",
+            properties: {
+              entityType: {
+                type: "string",
+                enum: [...ENTITY_TYPES],
+                description: "Scope, same as in load_and_filter_tasks"
+              },
+              entityId: {
+                type: "string",
+                description: "Person ID, department key or list/folder/space ID. Required for person/department."
+              },
+              entityName: {
+                type: "string",
+                description: "Person, department or list/folder/space name"
+              },
+              status: {
+                type: "string",
+                description: "Only this status, as the user said it (e.g. 'на затвердження'). Omit for all statuses."
+              },
+              period: {
+                type: "string",
+                enum: [...PERIOD_KEYS],
+                description: "Closing period of the tasks used for cycle time. Default last_month."
+              }
+            },
+            required: ["entityType"]
+          }
+        }
+      },
       {
         type: "function" as const,
         function: {
@@ -205,7 +817,7 @@ export class Agent {
               },
               period: {
                 type: "string",
-                enum: ["today", "yesterday", "this_week", "last_week", "this_month", "last_month"],
+                enum: [...PERIOD_KEYS],
                 description: "Time period to query"
               }
             },
@@ -250,20 +862,9 @@ export class Agent {
       const now = DateTime.now().setZone(config.timezone);
       const todayStr = now.toFormat("yyyy-MM-dd");
       const todayStart = now.startOf('day');
-      
-      // Statuses that should be monitored for "stuck" detection
-      const activeStatuses = [
-        'сьогодні', 'today', 'urgent', 'в роботі', 'in progress', 
-        'задачі на сьогодні', 'на затвердження', 'допрацювати',
-        'усі задачі', 'all tasks', 'to do', 'open', 'backlog'
-      ];
-      
-      // Filter out truly completed tasks (status name contains "complete")
-      const activeTasks = result.tasks.filter((t: any) => {
-        const statusName = (t.status?.status || '').toLowerCase();
-        // Exclude ONLY if status name explicitly says "complete" or "done"
-        return !statusName.includes('complete') && !statusName.includes('done');
-      });
+
+      // Filter out finished tasks (status category 'done')
+      const activeTasks = result.tasks.filter((t: any) => isOpenStatus(t));
       
       logger.info("agent_tasks_received", { total: result.tasks.length, active: activeTasks.length });
       
@@ -277,10 +878,8 @@ export class Agent {
         const isHardOverdue = due ? due.startOf('day') < todayStart : false;
         const overdueDays = isHardOverdue ? Math.floor(todayStart.diff(due!.startOf('day'), 'days').days) : 0;
         
-        const statusLower = (t.status?.status || '').toLowerCase();
-        const isActiveStatus = activeStatuses.some(s => statusLower.includes(s));
-        // STUCK: No due date, in any active status, and older than 1 day
-        const isStuck = !due && isActiveStatus && daysOld >= 1;
+        // STUCK: No due date, not finished (all remaining tasks), and older than 1 day
+        const isStuck = !due && daysOld >= 1;
 
         // Pre-build the problem label for the agent
         let problem_type: string | null = null;
@@ -304,6 +903,8 @@ export class Agent {
           due_date_human: dueDateStr,
           list_name: t.list?.name,
           url: t.url,
+          priority: getPriorityLevel(t),
+          priority_weight: getPriorityWeight(t),
           problem_type,
           problem_priority,
         };
@@ -312,7 +913,7 @@ export class Agent {
       // Filter to only problematic tasks and sort by priority
       const problematic = simplified
         .filter((t: any) => t.problem_type !== null)
-        .sort((a: any, b: any) => a.problem_priority - b.problem_priority);
+        .sort((a: any, b: any) => a.problem_priority - b.problem_priority || b.priority_weight - a.priority_weight);
       
       const overdueCount = simplified.filter((t: any) => t.problem_priority === 1).length;
       const stuckCount = simplified.filter((t: any) => t.problem_priority === 2).length;
@@ -369,18 +970,18 @@ export class Agent {
     return json.substring(0, 10000);
   }
 
-  async handleMessage(userId: number, text: string): Promise<string> {
+  async handleMessage(userId: number, text: string): Promise<AgentReply> {
     const teamInfoResponse = this.buildTeamInfoResponse(text);
     if (teamInfoResponse) {
       await this.store.saveMessage(userId, "user", text);
       await this.store.saveMessage(userId, "assistant", teamInfoResponse);
-      return teamInfoResponse;
+      return { text: teamInfoResponse };
     }
 
     const state = await this.store.getState(userId);
     const history = await this.store.getRecentMessages(userId, 10).catch(() => []);
     const messages: any[] = [
-      { role: "system", content: buildSystemPrompt(state) },
+      { role: "system", content: buildSystemPrompt({ ...state, lastDepartment: state.department }) },
       ...this.buildHistoryMessages(history),
       { role: "user", content: text },
     ];
@@ -418,14 +1019,14 @@ export class Agent {
               const errorMsg = "⚠️ Помилка: неможливо відповісти без завантаження даних. Спробуйте ще раз.";
               await this.store.saveMessage(userId, "user", text);
               await this.store.saveMessage(userId, "assistant", errorMsg);
-              return errorMsg;
+              return { text: errorMsg };
             }
           }
           
           const responseText = message.content || "Я не зміг знайти відповідь.";
           await this.store.saveMessage(userId, "user", text);
           await this.store.saveMessage(userId, "assistant", responseText);
-          return responseText;
+          return { text: responseText };
         }
 
         for (const toolCall of message.tool_calls) {
@@ -435,84 +1036,116 @@ export class Agent {
 
           try {
             let result: any;
+            if (SCOPED_TOOLS.has(functionName)) {
+              const scope = await this.resolveScope(functionArgs);
+              if ("error" in scope) {
+                messages.push({ role: "tool", tool_call_id: toolCall.id, content: JSON.stringify(scope) });
+                continue;
+              }
+              Object.assign(functionArgs, scope);
+            }
             if (functionName === "load_and_filter_tasks") {
               // Custom tool: unified task loading and filtering via REST API
-              const { entityType, entityId, entityName, filterType } = functionArgs;
+              const { entityType, entityId, entityName } = functionArgs;
+              const filters: FilterType[] = Array.isArray(functionArgs.filters) ? functionArgs.filters : [];
+              const filterType: FilterType = filters[0] ?? functionArgs.filterType;
+              const filterMode: FilterMode = functionArgs.filterMode === 'and' ? 'and' : 'or';
+              const departmentId = entityType === 'person' ? normalizeDepartmentKey(functionArgs.departmentId) : undefined;
+              const withinDays = Number.isInteger(functionArgs.withinDays) && functionArgs.withinDays >= 0
+                ? Math.min(functionArgs.withinDays, 60)
+                : undefined;
+              const priority = Array.isArray(functionArgs.priority)
+                ? (functionArgs.priority as string[]).filter((level): level is PriorityLevel => (PRIORITY_LEVELS as string[]).includes(level))
+                : undefined;
+              const tag: string | undefined = functionArgs.tag || undefined;
+              const customField: CustomFieldFilter | undefined = functionArgs.customField && functionArgs.customFieldValue
+                ? {
+                  name: String(functionArgs.customField),
+                  match: functionArgs.customFieldMatch === 'contains' ? 'contains' : 'equals',
+                  value: String(functionArgs.customFieldValue),
+                }
+                : undefined;
+              const groupByField: string | undefined = functionArgs.groupByField || undefined;
+              const groupBy: GroupBy | undefined = GROUP_BY_VALUES.includes(functionArgs.groupBy) ? functionArgs.groupBy : undefined;
+              const sortBy: SortBy | undefined = SORT_BY_VALUES.includes(functionArgs.sortBy) ? functionArgs.sortBy : undefined;
+              const sortOrder: SortOrder | undefined = functionArgs.sortOrder === 'asc' || functionArgs.sortOrder === 'desc'
+                ? functionArgs.sortOrder
+                : undefined;
+              const resolvedRanges = resolveTaskRanges(functionArgs, filterType === 'completed' || filters.includes('completed'));
+              if ('invalid' in resolvedRanges) {
+                result = { error: `Invalid ${resolvedRanges.invalid} range. Ask the user for the dates.` };
+                messages.push({ role: "tool", tool_call_id: toolCall.id, content: JSON.stringify(result) });
+                continue;
+              }
+              const {
+                closedDate: dateRange,
+                dueDate: dueRange,
+                createdDate: createdRange,
+                updatedDate: updatedRange,
+              } = resolvedRanges.ranges;
+              if (functionArgs.departmentId && entityType === 'person' && !departmentId) {
+                result = { error: `Unknown department '${functionArgs.departmentId}'. Use one of: ${departmentKeys.join(', ')}` };
+                messages.push({ role: "tool", tool_call_id: toolCall.id, content: JSON.stringify(result) });
+                continue;
+              }
 
-              logger.info("load_and_filter_tasks_start", { entityType, entityId, filterType });
+              logger.info("load_and_filter_tasks_start", {
+                entityType, entityId, departmentId, filterType, filters, filterMode, withinDays, priority, tag, customField, groupBy, groupByField,
+                sortBy, sortOrder, dateRange, dueRange, createdRange, updatedRange,
+              });
 
-              const tasks = await this.queryProcessor.processQuery({
+              const operation: OperationType = functionArgs.operation === 'count' || functionArgs.operation === 'stats'
+                ? functionArgs.operation
+                : 'show';
+              const { tasks, truncatedSources, hierarchy, stats } = await this.queryProcessor.processQuery({
                 entityType: entityType as EntityType,
                 entityId,
                 entityName,
-                filterType: filterType as FilterType,
-                operation: 'show' as OperationType
+                departmentId,
+                filterType,
+                filters,
+                filterMode,
+                withinDays,
+                priority,
+                tag,
+                customField,
+                dateRange,
+                dueRange,
+                createdRange,
+                updatedRange,
+                sortBy,
+                sortOrder,
+                operation
               });
 
-              logger.info("load_and_filter_tasks_done", { count: tasks.length });
-
-              // Format tasks - two-level grouping (person -> project) with compact meta
-              const displayLimit = 25;
-              const tasksToShow = tasks.slice(0, displayLimit);
-              const remaining = tasks.length - displayLimit;
-
-              const filterTitles: Record<string, string> = {
-                'stuck': '⏳ Зависли без руху',
-                'overdue': '🔴 Прострочені',
-                'due_today': '📅 На сьогодні',
-                'in_progress': '🟢 В роботі',
-                'none': '📋 Всі задачі'
+              logger.info("load_and_filter_tasks_done", { count: tasks.length, operation });
+
+              const view = {
+                tasks,
+                filterType,
+                filters,
+                filterMode,
+                withinDays,
+                headerName: [entityName || entityId || 'всі', departmentId].filter(Boolean).join(' · '),
+                priority,
+                tag,
+                customField,
+                groupBy,
+                groupByField,
+                dateRange,
+                dueRange,
+                createdRange,
+                updatedRange,
+                truncatedSources,
+                // Closed tasks are loaded live, not from the snapshot
+                cacheAgeMs: dateRange ? null : this.queryProcessor.getCacheAgeMs(),
+                hierarchy,
               };
-
-              const title = filterTitles[filterType] || '📋 Задачі';
-              let formattedText = '';
-              const escapeHtml = (value: string) =>
-                value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
-              const escapeAttr = (value: string) =>
-                value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
-
-              if (tasks.length === 0) {
-                formattedText = `${title}\n\n✅ Задач не знайдено!`;
-              } else {
-                const headerName = entityName || entityId || '—';
-                const peopleUrl = `https://app.clickup.com/${config.clickup.teamId}/teams-pulse/people`;
-                const headerLabel = `<a href="${escapeAttr(peopleUrl)}">${escapeHtml(headerName)}</a>`;
-
-                formattedText = `<b>${title}</b> — ${headerLabel} (${tasks.length})\n\n`;
-
-                const groupedByProject = new Map<string, any[]>();
-                for (const task of tasksToShow) {
-                  const projectName = task.space?.name || task.list?.name || task.folder?.name || 'Без проєкту';
-                  if (!groupedByProject.has(projectName)) {
-                    groupedByProject.set(projectName, []);
-                  }
-                  groupedByProject.get(projectName)!.push(task);
-                }
-
-                for (const [projectName, projectTasks] of groupedByProject.entries()) {
-                  formattedText += `<b>Проект:</b> ${escapeHtml(projectName)}\n`;
-
-                  for (const task of projectTasks) {
-                    const status = typeof task.status === 'string' ? task.status : task.status?.status || '—';
-                    const dueDate = task.due_date
-                      ? new Date(Number(task.due_date)).toLocaleDateString('uk-UA', { day: '2-digit', month: '2-digit' })
-                      : '—';
-                    const taskUrlRaw = task.url || task.short_url || (task.id ? `https://app.clickup.com/t/${task.id}` : '');
-                    const taskUrl = taskUrlRaw ? escapeAttr(taskUrlRaw) : '';
-
-                    formattedText += `<b>Таска:</b> ${escapeHtml(task.name)}\n`;
-                    formattedText += `<b>Статус:</b> ${escapeHtml(status || '—')}\n`;
-                    formattedText += `<b>Дедлайн:</b> ${escapeHtml(dueDate)}\n`;
-                    formattedText += taskUrl
-                      ? `<a href="${taskUrl}">🔗 Відкрити</a>\n\n`
-                      : `🔗 Відкрити\n\n`;
-                  }
-                }
-
-                if (remaining > 0) {
-                  formattedText += `<i>+ ще ${remaining}</i>`;
-                }
-              }
+              const reply = operation === 'count'
+                ? formatTaskCount(view)
+                : operation === 'stats' && stats
+                  ? formatTaskStats(view, stats)
+                  : await this.paginate(userId, formatTaskListPages(view));
 
               if (entityType === "person" && entityId && entityName) {
                 await this.store.updateState(userId, {
@@ -524,8 +1157,104 @@ export class Agent {
 
               // Return directly to preserve HTML formatting without LLM reformatting.
               await this.store.saveMessage(userId, "user", text);
-              await this.store.saveMessage(userId, "assistant", formattedText);
-              return formattedText;
+              await this.store.saveMessage(userId, "assistant", reply.text);
+              return reply;
+            } else if (functionName === "search_tasks") {
+              const query = String(functionArgs.query ?? '').trim();
+              const entityType: EntityType = functionArgs.entityType || 'all';
+              const { entityId, entityName } = functionArgs;
+              logger.info("search_tasks_start", { query, entityType, entityId });
+
+              const { tasks, truncatedSources, hierarchy } = await this.queryProcessor.processQuery({
+                entityType,
+                entityId,
+                entityName,
+                filterType: 'none',
+                operation: 'show' as OperationType
+              });
+              const matches = searchTasks(tasks, query);
+              logger.info("search_tasks_done", { query, scanned: tasks.length, matches: matches.length, topScore: matches[0]?.score });
+
+              const reply = await this.paginate(userId, formatTaskListPages({
+                tasks: matches.map(match => match.task),
+                filterType: 'none',
+                headerName: entityName || entityId || 'всі',
+                search: query,
+                truncatedSources,
+                cacheAgeMs: this.queryProcessor.getCacheAgeMs(),
+                hierarchy,
+              }));
+              await this.store.saveMessage(userId, "user", text);
+              await this.store.saveMessage(userId, "assistant", reply.text);
+              return reply;
+            } else if (functionName === "create_task") {
+              const prepared = this.taskActions.prepareCreateTask(userId, functionArgs);
+              if ("error" in prepared) {
+                result = prepared;
+              } else {
+                // Return the confirmation card directly - nothing is written until the user confirms
+                await this.store.saveMessage(userId, "user", text);
+                await this.store.saveMessage(userId, "assistant", prepared.text);
+                return prepared;
+              }
+            } else if (
+              functionName === "update_task_status" ||
+              functionName === "update_task_due_date" ||
+              functionName === "reassign_task"
+            ) {
+              const lookup = await this.queryProcessor.findTask(String(functionArgs.task ?? ""));
+              let prepared: AgentReply | { error: string };
+              if ("error" in lookup) {
+                prepared = lookup;
+              } else if (functionName === "update_task_status") {
+                prepared = await this.taskActions.prepareStatusChange(userId, lookup.task, String(functionArgs.status ?? ""));
+              } else if (functionName === "update_task_due_date") {
+                prepared = this.taskActions.prepareDueDateChange(userId, lookup.task, String(functionArgs.dueDate ?? ""));
+              } else {
+                prepared = this.taskActions.prepareReassign(userId, lookup.task, String(functionArgs.assignee ?? ""));
+              }
+
+              if ("error" in prepared) {
+                result = prepared;
+              } else {
+                // Same as create_task: the card goes straight to the user, ClickUp is untouched until confirmed
+                await this.store.saveMessage(userId, "user", text);
+                await this.store.saveMessage(userId, "assistant", prepared.text);
+                return prepared;
+              }
+            } else if (functionName === "get_task_comments") {
+              const lookup = await this.queryProcessor.findTask(String(functionArgs.task ?? ""));
+              if ("error" in lookup) {
+                result = lookup;
+              } else {
+                const limit = Math.min(Math.max(Number(functionArgs.limit) || 10, 1), 30);
+                const comments = await loadTaskComments(this.clickup, lookup.task.id, limit);
+                result = {
+                  task: {
+                    id: lookup.task.id,
+                    name: lookup.task.name,
+                    status: typeof lookup.task.status === 'string' ? lookup.task.status : lookup.task.status?.status,
+                    url: lookup.task.url,
+                  },
+                  comments,
+                  instruction: comments.length > 0
+                    ? "Summarize in Ukrainian in 2-4 sentences: what was discussed, the latest update and what blocks the task. Mention who said what."
+                    : "Tell the user in Ukrainian that the task has no comments.",
+                };
+              }
+            } else if (functionName === "add_comment") {
+              const lookup = await this.queryProcessor.findTask(String(functionArgs.task ?? ""));
+              const prepared = "error" in lookup
+                ? lookup
+                : this.taskActions.prepareComment(userId, lookup.task, String(functionArgs.text ?? ""), Boolean(functionArgs.mentionAssignee));
+
+              if ("error" in prepared) {
+                result = prepared;
+              } else {
+                await this.store.saveMessage(userId, "user", text);
+                await this.store.saveMessage(userId, "assistant", prepared.text);
+                return prepared;
+              }
             } else if (functionName === "update_context") {
               // Custom tool: update context state
               const { personId, personName } = functionArgs;
@@ -535,68 +1264,76 @@ export class Agent {
               });
               logger.info("agent_context_updated", { userId, personId, personName });
               result = { success: true, message: `Context updated: ${personName} (${personId})` };
+            } else if (functionName === "get_blocker_report") {
+              const report = generateBlockerReport(await this.queryProcessor.getAllTasks());
+              // Ready HTML - same as task lists, the model would only reformat it
+              await this.store.saveMessage(userId, "user", text);
+              await this.store.saveMessage(userId, "assistant", report);
+              return { text: report };
+            } else if (functionName === "get_team_report") {
+              const type: ReportType = REPORT_TYPES.includes(functionArgs.type) ? functionArgs.type : 'overdue';
+              const report = await this.runReport(userId, {
+                type,
+                department: functionArgs.department || undefined,
+                days: Number.isInteger(functionArgs.days) && functionArgs.days > 0 ? functionArgs.days : undefined,
+                limit: Number.isInteger(functionArgs.limit) && functionArgs.limit > 0 ? Math.min(functionArgs.limit, 50) : undefined,
+              });
+              // Ready HTML - same as the other reports
+              await this.store.saveMessage(userId, "user", text);
+              await this.store.saveMessage(userId, "assistant", report.text);
+              return { text: report.text };
+            } else if (functionName === "get_throughput_report") {
+              const range = resolveDateRange(functionArgs, 'last_week');
+              if (range === null) {
+                result = { error: `Invalid date range ${functionArgs.dateFrom ?? ''}..${functionArgs.dateTo ?? ''}. Ask the user for the dates.` };
+              } else {
+                logger.info("get_throughput_report_start", { from: range.from, to: range.to });
+                const report = generateThroughputReport(await this.queryProcessor.loadThroughput(range), range);
+                await this.store.saveMessage(userId, "user", text);
+                await this.store.saveMessage(userId, "assistant", report);
+                return { text: report };
+              }
+            } else if (functionName === "get_status_time_report") {
+              const { entityType, entityId, entityName } = functionArgs;
+              const status: string | undefined = functionArgs.status || undefined;
+              const completedRange = resolvePeriod(functionArgs.period, 'last_month');
+              logger.info("get_status_time_report_start", { entityType, entityId, status, from: completedRange.from });
+
+              // No cards are rendered, so skip the hierarchy ('count' loads just the tasks)
+              const scope = { entityType: entityType as EntityType, entityId, entityName, operation: 'count' as OperationType };
+              const open = await this.queryProcessor.processQuery({ ...scope, filterType: 'none' });
+              const completed = await this.queryProcessor.processQuery({ ...scope, filterType: 'completed', dateRange: completedRange });
+              const { times, failedChunks } = await loadTimeInStatus(
+                this.clickup,
+                [...open.tasks, ...completed.tasks].map(task => task.id)
+              );
+
+              const report = generateStatusTimeReport({
+                title: entityName || entityId || 'всі задачі',
+                openTasks: open.tasks,
+                completedTasks: completed.tasks,
+                completedRange,
+                times,
+                failedChunks,
+                status,
+              });
+              await this.store.saveMessage(userId, "user", text);
+              await this.store.saveMessage(userId, "assistant", report);
+              return { text: report };
             } else if (functionName === "get_time_tracked") {
               // Time tracking tool
               const { personId, personName, period } = functionArgs;
               logger.info("get_time_tracked_start", { personId, period });
 
-              // Calculate date range based on period
-              const now = DateTime.now().setZone(config.timezone);
-              let startDate: DateTime;
-              let endDate: DateTime = now;
-              let periodLabel = '';
-
-              switch (period) {
-                case 'today':
-                  startDate = now.startOf('day');
-                  periodLabel = 'сьогодні';
-                  break;
-                case 'yesterday':
-                  startDate = now.minus({ days: 1 }).startOf('day');
-                  endDate = now.minus({ days: 1 }).endOf('day');
-                  periodLabel = 'вчора';
-                  break;
-                case 'this_week':
-                  startDate = now.startOf('week');
-                  periodLabel = 'цього тижня';
-                  break;
-                case 'last_week':
-                  startDate = now.minus({ weeks: 1 }).startOf('week');
-                  endDate = now.minus({ weeks: 1 }).endOf('week');
-                  periodLabel = 'минулого тижня';
-                  break;
-                case 'this_month':
-                  startDate = now.startOf('month');
-                  periodLabel = 'цього місяця';
-                  break;
-                case 'last_month':
-                  startDate = now.minus({ months: 1 }).startOf('month');
-                  endDate = now.minus({ months: 1 }).endOf('month');
-                  periodLabel = 'минулого місяця';
-                  break;
-                default:
-                  startDate = now.startOf('month');
-                  periodLabel = 'цього місяця';
-              }
+              const { from: startMs, to: endMs, label: periodLabel } = resolvePeriod(period, 'this_month');
 
               // Fetch time entries from ClickUp API
-              const startMs = startDate.toMillis();
-              const endMs = endDate.toMillis();
-              const url = `https://api.clickup.com/api/v2/team/${config.clickup.teamId}/time_entries?start_date=${startMs}&end_date=${endMs}&assignee=${personId}`;
-
               try {
-                const response = await fetch(url, {
-                  headers: {
-                    'Authorization': config.clickup.apiKey,
-                    'Content-Type': 'application/json',
-                  },
+                const data = await this.clickup.get(`/team/${config.clickup.teamId}/time_entries`, {
+                  start_date: startMs,
+                  end_date: endMs,
+                  assignee: personId,
                 });
-
-                if (!response.ok) {
-                  throw new Error(`ClickUp API error ${response.status}`);
-                }
-
-                const data = await response.json();
                 const entries = data.data || [];
 
                 // Calculate total time
@@ -647,7 +1384,8 @@ export class Agent {
                 logger.info("get_time_tracked_done", { personId, entries: entries.length, totalMs });
               } catch (error) {
                 logger.error("get_time_tracked_failed", { personId, error: String(error) });
-                result = { formattedText: `❌ Помилка отримання time tracking даних: ${error}`, error: true };
+                const reason = isClickUpError(error) ? error.userMessage : String(error);
+                result = { formattedText: `❌ Помилка отримання time tracking даних: ${reason}`, error: true };
               }
             } else {
               // Unknown tool
@@ -660,6 +1398,13 @@ export class Agent {
               content: this.truncateToolResult(functionName, result),
             });
           } catch (error) {
+            // ClickUp failures are not something the model can fix - tell the user directly
+            if (isClickUpError(error)) {
+              logger.error("agent_clickup_error", { tool: functionName, error: error.message });
+              await this.store.saveMessage(userId, "user", text);
+              await this.store.saveMessage(userId, "assistant", error.userMessage);
+              return { text: error.userMessage };
+            }
             messages.push({ role: "tool", tool_call_id: toolCall.id, content: JSON.stringify({ error: String(error) }) });
           }
         }
@@ -679,25 +1424,25 @@ export class Agent {
         // Insufficient quota - out of credits
         if (errorCode === 'insufficient_quota' || errorType === 'insufficient_quota') {
           logger.error("openai_credits_depleted", { message: errorMessage });
-          return "❌ <b>КРИТИЧНА ПОМИЛКА:</b> Закінчились кошти на OpenAI API!\n\nПотрібно поповнити баланс на https://platform.openai.com/account/billing";
+          return { text: "❌ <b>КРИТИЧНА ПОМИЛКА:</b> Закінчились кошти на OpenAI API!\n\nПотрібно поповнити баланс на https://platform.openai.com/account/billing" };
         }
 
         // Rate limit exceeded
         if (error?.status === 429 || errorCode === 'rate_limit_exceeded') {
           logger.warn("openai_rate_limit", { message: errorMessage });
-          return "⚠️ Забагато запитів до OpenAI. Почекайте хвилину і спробуйте знову.";
+          return { text: "⚠️ Забагато запитів до OpenAI. Почекайте хвилину і спробуйте знову." };
         }
 
         // Invalid API key
         if (error?.status === 401 || errorCode === 'invalid_api_key') {
           logger.error("openai_invalid_key", { message: errorMessage });
-          return "❌ Помилка авторизації OpenAI API. Перевірте OPENAI_API_KEY.";
+          return { text: "❌ Помилка авторизації OpenAI API. Перевірте OPENAI_API_KEY." };
         }
 
         // Model not found or deprecated
         if (error?.status === 404 || errorCode === 'model_not_found') {
           logger.error("openai_model_not_found", { message: errorMessage });
-          return "❌ Модель OpenAI не знайдена. Перевірте налаштування OPENAI_MODEL.";
+          return { text: "❌ Модель OpenAI не знайдена. Перевірте налаштування OPENAI_MODEL." };
         }
 
         // Generic OpenAI error
@@ -705,6 +1450,6 @@ export class Agent {
         throw error;
       }
     }
-    return "Забагато кроків. Спробуйте уточнити запит.";
+    return { text: "Забагато кроків. Спробуйте уточнити запит." };
   }
 }
@@ -0,0 +1,97 @@
+import { DateTime } from "luxon";
+import { config } from "../config/config";
+import { escapeAttr, escapeHtml } from "../utils/html";
+import { logger } from "../utils/logger";
+import { BlockerChain, buildDependencyGraph, getBlockerChain } from "./dependencies";
+import { getPriorityWeight } from "./priority";
+import { TaskData } from "./queryTypes";
+
+const REPORT_LIMIT = 10;
+const BLOCKED_PER_CHAIN = 8;
+
+const assigneeNames = (task: TaskData): string[] => (task.assignees || []).map((assignee) => assignee.username ?? assignee.email ?? String(assignee.id));
+
+const projectName = (task: TaskData): string =>
+  task.space?.name || task.list?.name || task.folder?.name || "Без проєкту";
+
+// A hop crosses people when none of the blocker's assignees works on the blocked task
+const crossesPeople = (blocker: TaskData, task: TaskData): boolean => {
+  const owners = new Set((blocker.assignees || []).map((assignee) => String(assignee.id)));
+  return !(task.assignees || []).some((assignee) => owners.has(String(assignee.id)));
+};
+
+const crossesProjects = (blocker: TaskData, task: TaskData): boolean => projectName(blocker) !== projectName(task);
+
+const chainWeight = (chain: BlockerChain): number =>
+  chain.blocked.reduce((sum, item) => sum + getPriorityWeight(item.task), 0);
+
+const formatChain = (chain: BlockerChain, number: number, todayStart: DateTime): string => {
+  const { blocker } = chain;
+  const due = DateTime.fromMillis(Number(blocker.due_date)).setZone(config.timezone);
+  const daysOverdue = Math.floor(todayStart.diff(due.startOf("day"), "days").days);
+  const owners = assigneeNames(blocker).join(", ") || "без виконавця";
+
+  const lines = [
+    `<b>${number}. <a href="${escapeAttr(blocker.url)}">${escapeHtml(blocker.name)}</a></b>`,
+    `   🔴 прострочено на ${daysOverdue} дн. • 👤 ${escapeHtml(owners)} • 📂 ${escapeHtml(projectName(blocker))}`,
+    `   ⛓ Блокує задач: ${chain.blocked.length}`,
+  ];
+
+  for (const { task, depth } of chain.blocked.slice(0, BLOCKED_PER_CHAIN)) {
+    const markers: string[] = [];
+    if (crossesPeople(blocker, task)) {
+      markers.push(`👤 ${escapeHtml(assigneeNames(task).join(", ") || "без виконавця")}`);
+    }
+    if (crossesProjects(blocker, task)) {
+      markers.push(`📂 ${escapeHtml(projectName(task))}`);
+    }
+    const indent = "   ".repeat(depth);
+    const suffix = markers.length > 0 ? ` — ${markers.join(" • ")}` : "";
+    lines.push(`${indent}↳ ${escapeHtml(task.name)}${suffix}`);
+  }
+  if (chain.blocked.length > BLOCKED_PER_CHAIN) {
+    lines.push(`   <i>+ ще ${chain.blocked.length - BLOCKED_PER_CHAIN}</i>`);
+  }
+
+  return lines.join("\n");
+};
+
+/**
+ * Overdue tasks that hold up work of other people or other projects, with the
+ * full chain of tasks waiting on them. Chains that stay with the same person
+ * and project are left out - the owner already knows about them.
+ */
+export function generateBlockerReport(allTasks: TaskData[]): string {
+  const graph = buildDependencyGraph(allTasks);
+  const todayStart = DateTime.now().setZone(config.timezone).startOf("day");
+
+  const chains = allTasks
+    .filter((task) => task.due_date && graph.blocks.has(task.id))
+    .filter((task) => DateTime.fromMillis(Number(task.due_date)).setZone(config.timezone).startOf("day") < todayStart)
+    .map((task) => getBlockerChain(graph, task))
+    .filter((chain) =>
+      chain.blocked.some(({ task }) => crossesPeople(chain.blocker, task) || crossesProjects(chain.blocker, task))
+    )
+    .sort((a, b) => b.blocked.length - a.blocked.length || chainWeight(b) - chainWeight(a));
+
+  logger.info("blocker_report_done", {
+    totalTasks: allTasks.length,
+    blockers: graph.blocks.size,
+    chains: chains.length,
+    topBlocked: chains[0]?.blocked.length,
+  });
+
+  if (chains.length === 0) {
+    return "✅ Прострочених задач, які блокують інших, немає.";
+  }
+
+  const lines = [`⛓ <b>Прострочені блокери (${chains.length}):</b>\n`];
+  chains.slice(0, REPORT_LIMIT).forEach((chain, index) => {
+    lines.push(formatChain(chain, index + 1, todayStart) + "\n");
+  });
+  if (chains.length > REPORT_LIMIT) {
+    lines.push(`<i>...та ще ${chains.length - REPORT_LIMIT}</i>`);
+  }
+
+  return lines.join("\n");
+}
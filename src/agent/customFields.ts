@@ -0,0 +1,75 @@
+import { DateTime } from "luxon";
+import { config } from "../config/config";
+import { CustomFieldFilter, TaskCustomField, TaskData } from "./queryTypes";
+
+export const getTagNames = (task: TaskData): string[] => (task.tags || []).map((tag) => tag.name);
+
+export const hasTag = (task: TaskData, tag: string): boolean => {
+  const wanted = tag.trim().replace(/^#/, "").toLowerCase();
+  return getTagNames(task).some((name) => name.toLowerCase() === wanted);
+};
+
+/**
+ * Custom field by name, case-insensitive. Exact names win over partial ones
+ * so "Канал" does not pick up "Канал оплати".
+ */
+export const findCustomField = (task: TaskData, name: string): TaskCustomField | undefined => {
+  const wanted = name.trim().toLowerCase();
+  const fields = task.custom_fields || [];
+  return (
+    fields.find((field) => field.name.toLowerCase() === wanted) ??
+    fields.find((field) => field.name.toLowerCase().includes(wanted))
+  );
+};
+
+/**
+ * Human-readable value of a custom field, or null when it is not set.
+ * drop_down/labels store option orderindex/ids, so they are mapped back to option names.
+ */
+export const getCustomFieldText = (field: TaskCustomField | undefined): string | null => {
+  if (!field || field.value === undefined || field.value === null || field.value === "") {
+    return null;
+  }
+  const options = field.type_config?.options ?? [];
+  const optionName = (option?: { name?: string; label?: string }) => option?.name ?? option?.label;
+
+  switch (field.type) {
+    case "drop_down": {
+      const option = options.find((item) => item.orderindex === Number(field.value) || item.id === field.value);
+      return optionName(option) ?? null;
+    }
+    case "labels": {
+      const ids = Array.isArray(field.value) ? field.value.map(String) : [];
+      const names = options.filter((item) => ids.includes(item.id)).map(optionName).filter(Boolean);
+      return names.length > 0 ? names.join(", ") : null;
+    }
+    case "date":
+      return DateTime.fromMillis(Number(field.value)).setZone(config.timezone).toFormat("dd.MM.yyyy");
+    case "checkbox":
+      return field.value === true || field.value === "true" ? "так" : "ні";
+    case "users":
+      return Array.isArray(field.value)
+        ? (field.value as Array<{ id: number | string; username?: string; email?: string }>)
+            .map((user) => user.username || user.email || String(user.id))
+            .join(", ")
+        : null;
+    case "location":
+      return (field.value as { formatted_address?: string }).formatted_address ?? null;
+    default:
+      return typeof field.value === "object" ? JSON.stringify(field.value) : String(field.value);
+  }
+};
+
+export const matchesCustomField = (task: TaskData, filter: CustomFieldFilter): boolean => {
+  const text = getCustomFieldText(findCustomField(task, filter.name));
+  if (text === null) {
+    return false;
+  }
+  const actual = text.toLowerCase();
+  const wanted = filter.value.trim().toLowerCase();
+  if (filter.match === "contains") {
+    return actual.includes(wanted);
+  }
+  // labels hold several values - "equals" means one of them is the value
+  return actual === wanted || actual.split(", ").includes(wanted);
+};
@@ -0,0 +1,60 @@
+import { DateTime } from "luxon";
+import { isAtRisk, isDueSoon, isOverdue } from "./deadlineRisk";
+import { TaskData } from "./queryTypes";
+
+// Monday morning in the team's timezone
+const now = DateTime.fromISO("2026-10-19T09:00:00", { zone: "Europe/Kyiv" });
+
+const at = (iso: string): string => String(DateTime.fromISO(iso, { zone: "Europe/Kyiv" }).toMillis());
+
+const task = (overrides: Partial<TaskData> = {}): TaskData => ({
+  id: "86abc123",
+  name: "Підготувати звіт",
+  status: { status: "in progress", id: "s1", color: "#000", type: "custom", orderindex: 1 },
+  due_date: null,
+  assignees: [],
+  list: { id: "901", name: "Sales" },
+  folder: null,
+  space: null,
+  url: "https://app.clickup.com/t/86abc123",
+  date_created: at("2026-10-01T10:00:00"),
+  date_updated: at("2026-10-19T08:00:00"),
+  ...overrides,
+});
+
+const closed = { status: "closed", id: "s9", color: "#000", type: "closed", orderindex: 9 };
+const backlog = { status: "to do", id: "s0", color: "#000", type: "open", orderindex: 0 };
+
+describe("isOverdue", () => {
+  it("counts only open tasks due before today", () => {
+    expect(isOverdue(task({ due_date: at("2026-10-18T23:59:00") }), now)).toBe(true);
+    // Due earlier today is not overdue yet
+    expect(isOverdue(task({ due_date: at("2026-10-19T08:00:00") }), now)).toBe(false);
+    expect(isOverdue(task({ due_date: at("2026-10-10T12:00:00"), status: closed }), now)).toBe(false);
+    expect(isOverdue(task(), now)).toBe(false);
+  });
+});
+
+describe("isDueSoon", () => {
+  it("covers today through the end of the n-th day ahead", () => {
+    expect(isDueSoon(task({ due_date: at("2026-10-19T00:00:00") }), 3, now)).toBe(true);
+    expect(isDueSoon(task({ due_date: at("2026-10-22T23:59:00") }), 3, now)).toBe(true);
+    expect(isDueSoon(task({ due_date: at("2026-10-23T00:00:00") }), 3, now)).toBe(false);
+    expect(isDueSoon(task({ due_date: at("2026-10-18T12:00:00") }), 3, now)).toBe(false);
+    expect(isDueSoon(task({ due_date: at("2026-10-20T12:00:00"), status: closed }), 3, now)).toBe(false);
+  });
+});
+
+describe("isAtRisk", () => {
+  const dueTomorrow = at("2026-10-20T18:00:00");
+
+  it("flags tasks due soon that sit idle or in the backlog", () => {
+    expect(isAtRisk(task({ due_date: dueTomorrow, date_updated: at("2026-10-16T09:00:00") }), 3, now)).toBe(true);
+    expect(isAtRisk(task({ due_date: dueTomorrow, status: backlog }), 3, now)).toBe(true);
+  });
+
+  it("leaves tasks on track or not due soon alone", () => {
+    expect(isAtRisk(task({ due_date: dueTomorrow }), 3, now)).toBe(false);
+    expect(isAtRisk(task({ due_date: at("2026-10-30T18:00:00"), status: backlog }), 3, now)).toBe(false);
+  });
+});
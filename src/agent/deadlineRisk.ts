@@ -0,0 +1,58 @@
+import { DateTime } from "luxon";
+import { config } from "../config/config";
+import { getTaskStatusCategory, isOpenStatus } from "../config/statuses";
+import { TaskData } from "./queryTypes";
+
+// "Скоро" without a number: today and the next three days
+export const DEFAULT_DUE_SOON_DAYS = 3;
+
+// A task due soon that nobody touched for this long is unlikely to make it
+const IDLE_DAYS = 2;
+
+export type RiskReason =
+  | { kind: "idle"; days: number }  // Not updated for `days` days
+  | { kind: "backlog" };            // Still in a backlog-type status
+
+/**
+ * Open and due on a day before today. Filters, stats and reports all use this rule.
+ */
+export const isOverdue = (task: TaskData, now: DateTime = DateTime.now().setZone(config.timezone)): boolean => {
+  if (!task.due_date || !isOpenStatus(task)) {
+    return false;
+  }
+  return DateTime.fromMillis(Number(task.due_date)).setZone(now.zone).startOf("day") < now.startOf("day");
+};
+
+/**
+ * Open and due from today through the end of the `days`-th day ahead. Overdue tasks are not "soon".
+ */
+export const isDueSoon = (task: TaskData, days: number, now: DateTime = DateTime.now().setZone(config.timezone)): boolean => {
+  if (!task.due_date || !isOpenStatus(task)) {
+    return false;
+  }
+  const due = Number(task.due_date);
+  return due >= now.startOf("day").toMillis() && due <= now.plus({ days }).endOf("day").toMillis();
+};
+
+/**
+ * Why a task due soon may miss its deadline; empty when it looks on track
+ */
+export const getRiskReasons = (task: TaskData, now: DateTime = DateTime.now().setZone(config.timezone)): RiskReason[] => {
+  const reasons: RiskReason[] = [];
+  if (task.date_updated) {
+    const idleDays = Math.floor(now.diff(DateTime.fromMillis(Number(task.date_updated)), "days").days);
+    if (idleDays >= IDLE_DAYS) {
+      reasons.push({ kind: "idle", days: idleDays });
+    }
+  }
+  if (getTaskStatusCategory(task) === "backlog") {
+    reasons.push({ kind: "backlog" });
+  }
+  return reasons;
+};
+
+export const isAtRisk = (task: TaskData, days: number, now: DateTime = DateTime.now().setZone(config.timezone)): boolean =>
+  isDueSoon(task, days, now) && getRiskReasons(task, now).length > 0;
+
+export const formatRiskReason = (reason: RiskReason): string =>
+  reason.kind === "idle" ? `без оновлень ${reason.days} дн.` : "ще не взята в роботу";
@@ -0,0 +1,76 @@
+import { TaskData } from "./queryTypes";
+
+/**
+ * "Waiting on" / "blocking" links between open tasks.
+ * ClickUp lists each dependency on both tasks as `{ task_id, depends_on }`:
+ * `task_id` waits on `depends_on`. Links to tasks outside the snapshot are
+ * ignored - the blocker is almost always closed by then.
+ */
+export type DependencyGraph = {
+  waitingOn: Map<string, Set<string>>;  // task -> open tasks it waits on
+  blocks: Map<string, Set<string>>;     // task -> open tasks waiting on it
+  byId: Map<string, TaskData>;
+};
+
+export type BlockerChain = {
+  blocker: TaskData;
+  // Every task held up by the blocker, directly or through other blocked tasks
+  blocked: Array<{ task: TaskData; depth: number }>;
+};
+
+const link = (map: Map<string, Set<string>>, from: string, to: string) => {
+  if (!map.has(from)) {
+    map.set(from, new Set());
+  }
+  map.get(from)!.add(to);
+};
+
+export const buildDependencyGraph = (tasks: TaskData[]): DependencyGraph => {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const waitingOn = new Map<string, Set<string>>();
+  const blocks = new Map<string, Set<string>>();
+
+  for (const task of tasks) {
+    for (const dependency of task.dependencies || []) {
+      const waiter = dependency.task_id;
+      const blocker = dependency.depends_on;
+      if (!byId.has(waiter) || !byId.has(blocker) || waiter === blocker) {
+        continue;
+      }
+      link(waitingOn, waiter, blocker);
+      link(blocks, blocker, waiter);
+    }
+  }
+
+  return { waitingOn, blocks, byId };
+};
+
+export const isBlocked = (graph: DependencyGraph, taskId: string): boolean =>
+  (graph.waitingOn.get(taskId)?.size ?? 0) > 0;
+
+export const getBlockers = (graph: DependencyGraph, taskId: string): TaskData[] =>
+  Array.from(graph.waitingOn.get(taskId) ?? []).map((id) => graph.byId.get(id)!);
+
+/**
+ * Everything downstream of a blocker, breadth-first, each task once (cycles are possible in ClickUp).
+ */
+export const getBlockerChain = (graph: DependencyGraph, blocker: TaskData): BlockerChain => {
+  const visited = new Set<string>([blocker.id]);
+  const blocked: BlockerChain["blocked"] = [];
+  let frontier = [blocker.id];
+
+  for (let depth = 1; frontier.length > 0; depth++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const waiterId of graph.blocks.get(id) ?? []) {
+        if (visited.has(waiterId)) continue;
+        visited.add(waiterId);
+        blocked.push({ task: graph.byId.get(waiterId)!, depth });
+        next.push(waiterId);
+      }
+    }
+    frontier = next;
+  }
+
+  return { blocker, blocked };
+};
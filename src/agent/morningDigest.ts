@@ -0,0 +1,63 @@
+import { DateTime } from "luxon";
+import { config } from "../config/config";
+import { assigneeName } from "../config/teamMembers";
+import { escapeAttr, escapeHtml } from "../utils/html";
+import { logger } from "../utils/logger";
+import { DEFAULT_DUE_SOON_DAYS, formatRiskReason, getRiskReasons, isDueSoon } from "./deadlineRisk";
+import { getPriorityWeight } from "./priority";
+import { TaskData } from "./queryTypes";
+
+const AT_RISK_LIMIT = 15;
+
+const ownerNames = (task: TaskData): string =>
+  (task.assignees || []).map((assignee) => assigneeName(assignee)).join(", ") ||
+  "без виконавця";
+
+const formatDaysLeft = (due: DateTime, todayStart: DateTime): string => {
+  const days = Math.round(due.startOf("day").diff(todayStart, "days").days);
+  return days === 0 ? "сьогодні" : days === 1 ? "завтра" : `через ${days} дн.`;
+};
+
+/**
+ * Morning overview for managers: open tasks due in the next few days that nobody
+ * moved lately or that are still in backlog, nearest deadline first, so someone
+ * can step in before the deadline is missed.
+ */
+export function generateMorningDigest(allTasks: TaskData[], withinDays: number = DEFAULT_DUE_SOON_DAYS): string {
+  const now = DateTime.now().setZone(config.timezone);
+  const todayStart = now.startOf("day");
+
+  const dueSoon = allTasks.filter((task) => isDueSoon(task, withinDays, now));
+  const atRisk = dueSoon
+    .map((task) => ({ task, reasons: getRiskReasons(task, now) }))
+    .filter(({ reasons }) => reasons.length > 0)
+    .sort((a, b) => Number(a.task.due_date) - Number(b.task.due_date) || getPriorityWeight(b.task) - getPriorityWeight(a.task));
+
+  logger.info("morning_digest_done", { totalTasks: allTasks.length, dueSoon: dueSoon.length, atRisk: atRisk.length, withinDays });
+
+  const lines = [
+    `☀️ <b>Ранковий огляд — ${now.setLocale("uk").toFormat("cccc, dd.MM")}</b>`,
+    `Дедлайн найближчі ${withinDays} дн.: ${dueSoon.length}, з них під загрозою: ${atRisk.length}`,
+    "",
+  ];
+
+  if (atRisk.length === 0) {
+    lines.push("✅ Усі задачі з найближчими дедлайнами в роботі.");
+    return lines.join("\n");
+  }
+
+  lines.push(`⚠️ <b>Під загрозою зриву (${atRisk.length}):</b>\n`);
+  atRisk.slice(0, AT_RISK_LIMIT).forEach(({ task, reasons }, index) => {
+    const due = DateTime.fromMillis(Number(task.due_date)).setZone(config.timezone);
+    lines.push(
+      `<b>${index + 1}. <a href="${escapeAttr(task.url)}">${escapeHtml(task.name)}</a></b>`,
+      `   📅 ${due.toFormat("dd.MM")} (${formatDaysLeft(due, todayStart)}) • 👤 ${escapeHtml(ownerNames(task))}`,
+      `   ${reasons.map(formatRiskReason).join(", ")}\n`
+    );
+  });
+  if (atRisk.length > AT_RISK_LIMIT) {
+    lines.push(`<i>...та ще ${atRisk.length - AT_RISK_LIMIT}</i>`);
+  }
+
+  return lines.join("\n").trimEnd();
+}
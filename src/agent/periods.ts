@@ -0,0 +1,138 @@
+import { DateTime } from "luxon";
+import { config } from "../config/config";
+import { DateRange } from "./queryTypes";
+
+export const PERIOD_KEYS = ["today", "yesterday", "this_week", "last_week", "this_month", "last_month"] as const;
+
+export type PeriodKey = (typeof PERIOD_KEYS)[number];
+
+const PERIOD_LABELS: Record<PeriodKey, string> = {
+  today: "сьогодні",
+  yesterday: "вчора",
+  this_week: "цього тижня",
+  last_week: "минулого тижня",
+  this_month: "цього місяця",
+  last_month: "минулого місяця",
+};
+
+const isPeriodKey = (value: unknown): value is PeriodKey => (PERIOD_KEYS as readonly unknown[]).includes(value);
+
+/**
+ * Calendar period in the team's timezone. Current periods end now, past ones at their last millisecond.
+ */
+export const resolvePeriod = (
+  period: string | undefined,
+  fallback: PeriodKey,
+  now: DateTime = DateTime.now().setZone(config.timezone)
+): DateRange => {
+  const key = isPeriodKey(period) ? period : fallback;
+  let from: DateTime;
+  let to: DateTime = now;
+
+  switch (key) {
+    case "today":
+      from = now.startOf("day");
+      break;
+    case "yesterday":
+      from = now.minus({ days: 1 }).startOf("day");
+      to = now.minus({ days: 1 }).endOf("day");
+      break;
+    case "this_week":
+      from = now.startOf("week");
+      break;
+    case "last_week":
+      from = now.minus({ weeks: 1 }).startOf("week");
+      to = now.minus({ weeks: 1 }).endOf("week");
+      break;
+    case "this_month":
+      from = now.startOf("month");
+      break;
+    case "last_month":
+      from = now.minus({ months: 1 }).startOf("month");
+      to = now.minus({ months: 1 }).endOf("month");
+      break;
+  }
+
+  return { from: from.toMillis(), to: to.toMillis(), label: PERIOD_LABELS[key] };
+};
+
+/**
+ * Range from tool arguments: explicit YYYY-MM-DD bounds win over a named period.
+ * Returns null when a given date does not parse, so the model can ask again.
+ */
+export const resolveDateRange = (
+  args: { period?: string; dateFrom?: string; dateTo?: string },
+  fallback: PeriodKey
+): DateRange | null => {
+  if (!args.dateFrom && !args.dateTo) {
+    return resolvePeriod(args.period, fallback);
+  }
+
+  const now = DateTime.now().setZone(config.timezone);
+  const from = args.dateFrom ? DateTime.fromISO(args.dateFrom, { zone: config.timezone }) : now.startOf("month");
+  const to = args.dateTo ? DateTime.fromISO(args.dateTo, { zone: config.timezone }) : now;
+  if (!from.isValid || !to.isValid || from > to) {
+    return null;
+  }
+
+  return {
+    from: from.startOf("day").toMillis(),
+    to: DateTime.min(to.endOf("day"), now).toMillis(),
+    label: `${from.toFormat("dd.MM")}–${to.toFormat("dd.MM")}`,
+  };
+};
+
+// Due dates look ahead, so ranges for them also know the coming week and month
+export const RANGE_PERIOD_KEYS = [...PERIOD_KEYS, "next_week", "next_month"] as const;
+
+export type RangePeriodKey = (typeof RANGE_PERIOD_KEYS)[number];
+
+const RANGE_PERIOD_LABELS: Record<RangePeriodKey, string> = {
+  ...PERIOD_LABELS,
+  next_week: "наступного тижня",
+  next_month: "наступного місяця",
+};
+
+export type RangeArg = { period?: string; from?: string; to?: string };
+
+/**
+ * Whole-calendar range for a filter ("дедлайн цього тижня" runs to Sunday, not to now).
+ * Either bound may be left open. Returns null when nothing usable was given or a date does not parse.
+ */
+export const resolveRange = (arg: RangeArg | undefined): DateRange | null => {
+  if (!arg) {
+    return null;
+  }
+  const now = DateTime.now().setZone(config.timezone);
+
+  if (arg.from || arg.to) {
+    const from = arg.from ? DateTime.fromISO(arg.from, { zone: config.timezone }) : null;
+    const to = arg.to ? DateTime.fromISO(arg.to, { zone: config.timezone }) : null;
+    if ((from && !from.isValid) || (to && !to.isValid) || (from && to && from > to)) {
+      return null;
+    }
+    const label = from && to
+      ? `${from.toFormat("dd.MM")}–${to.toFormat("dd.MM")}`
+      : from
+        ? `з ${from.toFormat("dd.MM")}`
+        : `до ${to!.toFormat("dd.MM")}`;
+    return {
+      from: from ? from.startOf("day").toMillis() : 0,
+      to: to ? to.endOf("day").toMillis() : Number.MAX_SAFE_INTEGER,
+      label,
+    };
+  }
+
+  const key = (RANGE_PERIOD_KEYS as readonly string[]).includes(arg.period ?? "") ? (arg.period as RangePeriodKey) : null;
+  if (!key) {
+    return null;
+  }
+  const unit = key === "today" || key === "yesterday" ? "day" : key.endsWith("week") ? "week" : "month";
+  const shift = key === "yesterday" || key.startsWith("last") ? -1 : key.startsWith("next") ? 1 : 0;
+  const anchor = now.plus({ [`${unit}s`]: shift });
+  return {
+    from: anchor.startOf(unit).toMillis(),
+    to: anchor.endOf(unit).toMillis(),
+    label: RANGE_PERIOD_LABELS[key],
+  };
+};
@@ -0,0 +1,47 @@
+import { PriorityLevel } from "./queryTypes";
+
+export const PRIORITY_LEVELS: PriorityLevel[] = ["urgent", "high", "normal", "low"];
+
+/**
+ * Ranking weights: one urgent task must outrank several low ones,
+ * so each level is worth twice the next. No priority counts as normal.
+ */
+export const PRIORITY_WEIGHTS: Record<PriorityLevel | "none", number> = {
+  urgent: 8,
+  high: 4,
+  normal: 2,
+  low: 1,
+  none: 2,
+};
+
+export const PRIORITY_LABELS: Record<PriorityLevel, string> = {
+  urgent: "🔥 Терміновий",
+  high: "⬆️ Високий",
+  normal: "▫️ Звичайний",
+  low: "⬇️ Низький",
+};
+
+// ClickUp priority ids: 1 urgent, 2 high, 3 normal, 4 low
+const LEVEL_BY_ID: Record<string, PriorityLevel> = { "1": "urgent", "2": "high", "3": "normal", "4": "low" };
+
+/**
+ * Priority level of a task, whatever shape ClickUp (or a fixture) gave it:
+ * `{ id, priority: "urgent" }`, a bare number, or null.
+ */
+export const getPriorityLevel = (task: { priority?: unknown }): PriorityLevel | null => {
+  const priority = task.priority as { id?: string | number; priority?: string } | number | string | null | undefined;
+  if (priority === null || priority === undefined) {
+    return null;
+  }
+  if (typeof priority === "number" || typeof priority === "string") {
+    return LEVEL_BY_ID[String(priority)] ?? null;
+  }
+  const name = priority.priority?.toLowerCase();
+  if (name && (PRIORITY_LEVELS as string[]).includes(name)) {
+    return name as PriorityLevel;
+  }
+  return priority.id !== undefined ? LEVEL_BY_ID[String(priority.id)] ?? null : null;
+};
+
+export const getPriorityWeight = (task: { priority?: unknown }): number =>
+  PRIORITY_WEIGHTS[getPriorityLevel(task) ?? "none"];
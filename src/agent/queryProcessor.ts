@@ -1,36 +1,203 @@
 import { DateTime } from "luxon";
 import { config } from "../config/config";
 import { logger } from "../utils/logger";
-import { QueryClassification, TaskData, FilterType } from "./queryTypes";
+import { ClickUpClient, ClickUpQuery, clickupClient } from "../clickup/client";
+import { ClickUpApiError } from "../clickup/errors";
+import { TaskWebhookEvent } from "../clickup/webhooks";
+import { DateRange, QueryClassification, QueryResult, TaskData, LocationLookup, LocationType, TaskHierarchy, TaskLookup, TaskStats, SortBy, SortOrder, FilterType, TruncatedSource } from "./queryTypes";
+import { getPriorityLevel, getPriorityWeight } from "./priority";
+import { hasTag, matchesCustomField } from "./customFields";
+import { DependencyGraph, buildDependencyGraph, getBlockers, isBlocked } from "./dependencies";
+import { TaskCache } from "./taskCache";
+import { resolvePeriod } from "./periods";
+import { DEFAULT_DUE_SOON_DAYS, isAtRisk, isDueSoon, isOverdue } from "./deadlineRisk";
 import members from "../config/members.json";
-import departments from "../config/departments.json";
+import { departments, findDepartmentByListId, getDepartmentListIds } from "../config/departments";
+import { getTaskStatusCategory, isOpenStatus } from "../config/statuses";
+import { mapWithConcurrency } from "../utils/concurrency";
+
+// ClickUp returns up to 100 tasks per page
+const MAX_PAGES = 10;
+
+// ClickUp task ids are short lowercase alphanumerics, e.g. "86c1abcde"
+export const TASK_ID_PATTERN = /^(?=.*\d)[a-z0-9]{6,12}$/;
+
+const memberIds = new Set(members.map((member) => String(member.id)));
+
+// Every configured department list - loaded whole so unassigned tasks are included
+const departmentListIds = Array.from(new Set(
+  Object.values(departments).flatMap(dept => dept.list_ids ?? [])
+));
+
+// Team task endpoint parameter per location scope (ClickUp's API still calls folders projects)
+const LOCATION_PARAMS: Record<LocationType, string> = {
+  list: 'list_ids',
+  folder: 'project_ids',
+  space: 'space_ids',
+};
+
+type PagedTasks = { tasks: TaskData[]; truncated: boolean };
 
 /**
  * Unified query processor - loads and filters tasks based on classification
  * Uses direct ClickUp REST API calls (no MCP dependency)
  */
 export class QueryProcessor {
-  constructor() {}
+  private cache: TaskCache;
+  private snapshotTruncated: TruncatedSource[] = [];
+
+  constructor(private clickup: ClickUpClient = clickupClient) {
+    this.cache = new TaskCache(clickup, () => this.loadAllTasks(), (task) => this.isInScope(task));
+  }
 
   /**
-   * Fetch tasks directly from ClickUp REST API (bypassing MCP due to bugs)
+   * Tasks of configured members or in configured department lists
    */
-  private async fetchClickUpAPI(endpoint: string): Promise<any> {
-    const url = `https://api.clickup.com/api/v2${endpoint}`;
+  private isInScope(task: TaskData): boolean {
+    return (
+      (task.assignees || []).some((a) => memberIds.has(String(a.id))) ||
+      findDepartmentByListId(task.list?.id) !== undefined
+    );
+  }
 
-    const response = await fetch(url, {
-      headers: {
-        'Authorization': config.clickup.apiKey,
-        'Content-Type': 'application/json',
-      },
-    });
+  /**
+   * Force a full resync of the task snapshot. Returns the number of cached tasks.
+   */
+  async refresh(): Promise<number> {
+    return this.cache.fullSync();
+  }
+
+  /**
+   * Age of the task snapshot in milliseconds (null until the first load)
+   */
+  getCacheAgeMs(): number | null {
+    return this.cache.getAgeMs();
+  }
+
+  /**
+   * Switch the snapshot to webhook-driven updates
+   */
+  enableLiveUpdates(): void {
+    this.cache.setLive(true);
+  }
+
+  /**
+   * Put a task we just wrote to ClickUp into the snapshot without waiting for the next sync
+   */
+  upsertTask(task: TaskData): void {
+    this.cache.upsert(task);
+  }
+
+  /**
+   * Apply a ClickUp webhook event to the snapshot. Webhooks carry only the task id,
+   * so created/updated tasks are re-fetched to get their current state.
+   */
+  async applyTaskEvent(event: TaskWebhookEvent): Promise<void> {
+    this.cache.recordEvent();
+    if (event.event === 'taskDeleted') {
+      this.cache.remove(event.task_id);
+      logger.info("task_cache_event_applied", { event: event.event, taskId: event.task_id });
+      return;
+    }
+
+    try {
+      const task = await this.clickup.get<TaskData>(`/task/${event.task_id}`, { include_subtasks: false });
+      this.cache.upsert(task);
+      logger.info("task_cache_event_applied", { event: event.event, taskId: event.task_id });
+    } catch (error) {
+      // Deleted or moved out of reach between the event and our fetch
+      if (error instanceof ClickUpApiError && error.status === 404) {
+        this.cache.remove(event.task_id);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find a single task by id or by (part of) its name.
+   * Ids missing from the snapshot are fetched from ClickUp; ambiguous names return
+   * an error listing the candidates so the model can ask the user.
+   */
+  async findTask(ref: string): Promise<TaskLookup> {
+    const query = ref.trim().replace(/^#/, '');
+    const tasks = await this.cache.getTasks();
+
+    const byId = tasks.find(task => task.id === query);
+    if (byId) {
+      return { task: byId };
+    }
+
+    if (TASK_ID_PATTERN.test(query)) {
+      try {
+        return { task: await this.clickup.get<TaskData>(`/task/${query}`, { include_subtasks: false }) };
+      } catch (error) {
+        // ClickUp answers 401 rather than 404 for ids outside the workspace
+        if (!(error instanceof ClickUpApiError) || (error.status !== 404 && error.status !== 401)) {
+          throw error;
+        }
+      }
+    }
+
+    const queryLower = query.toLowerCase();
+    const exact = tasks.filter(task => task.name.toLowerCase() === queryLower);
+    const matches = exact.length > 0 ? exact : tasks.filter(task => task.name.toLowerCase().includes(queryLower));
+
+    if (matches.length === 1) {
+      return { task: matches[0] };
+    }
+    if (matches.length === 0) {
+      return { error: `No open task matches "${ref}". Ask the user for the exact task name or link.` };
+    }
+    const candidates = matches.slice(0, 5).map(task => `${task.id}: ${task.name}`).join('; ');
+    return { error: `${matches.length} tasks match "${ref}" (${candidates}). Ask the user which one they mean.` };
+  }
+
+  /**
+   * Resolve a list, folder or space by ID or by name - exact first, then partial.
+   * List and folder names come from the snapshot; tasks carry only the space id,
+   * so spaces are listed from ClickUp.
+   */
+  async findLocation(kind: LocationType, ref: string): Promise<LocationLookup> {
+    const locations = new Map<string, string>();
+    if (kind === 'space') {
+      const { spaces } = await this.clickup.get<{ spaces: Array<{ id: string; name: string }> }>(
+        `/team/${config.clickup.teamId}/space`,
+        { archived: false }
+      );
+      for (const space of spaces) {
+        locations.set(String(space.id), space.name);
+      }
+    } else {
+      for (const task of await this.cache.getTasks()) {
+        const location = task[kind];
+        if (location?.name) {
+          locations.set(String(location.id), location.name);
+        }
+      }
+    }
 
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`ClickUp API error ${response.status}: ${text}`);
+    if (locations.has(ref)) {
+      return { id: ref, name: locations.get(ref)! };
+    }
+    // An id outside the snapshot is still worth a live query
+    if (/^\d+$/.test(ref)) {
+      return { id: ref, name: ref };
     }
 
-    return response.json();
+    const refLower = ref.trim().toLowerCase();
+    const entries = Array.from(locations.entries());
+    const exact = entries.filter(([, name]) => name.toLowerCase() === refLower);
+    const matches = exact.length > 0 ? exact : entries.filter(([, name]) => name.toLowerCase().includes(refLower));
+
+    if (matches.length === 1) {
+      return { id: matches[0][0], name: matches[0][1] };
+    }
+    if (matches.length === 0) {
+      return { error: `No ${kind} named "${ref}". Ask the user for the exact name.` };
+    }
+    const candidates = matches.slice(0, 5).map(([id, name]) => `${id}: ${name}`).join('; ');
+    return { error: `${matches.length} ${kind}s match "${ref}" (${candidates}). Ask the user which one they mean.` };
   }
 
   /**
@@ -46,35 +213,91 @@ export class QueryProcessor {
   /**
    * Main entry point - processes a classified query and returns filtered tasks
    */
-  async processQuery(classification: QueryClassification): Promise<TaskData[]> {
+  async processQuery(classification: QueryClassification): Promise<QueryResult> {
     logger.info("query_processor_start", { classification });
 
-    // Step 1: Load tasks based on entity type
-    const tasks = await this.loadTasks(classification);
+    // Step 1: Load tasks based on entity type (closed ones come straight from ClickUp)
+    const filters = this.getFilters(classification);
+    const completed = filters.includes('completed');
+    const { tasks, truncatedSources } = completed
+      ? await this.loadCompletedTasks(classification)
+      : await this.loadTasks(classification);
 
-    logger.info("query_processor_loaded", { count: tasks.length });
+    logger.info("query_processor_loaded", { count: tasks.length, truncated: truncatedSources.length });
 
-    // Step 2: Apply filters
-    const filtered = this.applyFilters(tasks, classification.filterType);
+    // Dependencies point at tasks anywhere in the workspace, so the graph spans the whole snapshot.
+    // Closed tasks stay out of it - they neither block nor put a parent at risk.
+    const graph = buildDependencyGraph(await this.getSnapshot(completed ? [] : tasks));
 
-    logger.info("query_processor_filtered", { count: filtered.length, filter: classification.filterType });
+    // Step 2: Apply filters
+    const filtered = this.filterByAttributes(
+      this.filterByDates(
+        this.filterByDepartment(this.applyFilterList(tasks, filters, classification, graph), classification),
+        classification
+      ),
+      classification
+    );
+
+    logger.info("query_processor_filtered", {
+      count: filtered.length,
+      filters,
+      filterMode: classification.filterMode,
+      withinDays: classification.withinDays,
+      priority: classification.priority,
+      tag: classification.tag,
+      customField: classification.customField,
+    });
 
-    return filtered;
+    // Step 3: Most important problems first; cards need the hierarchy, summaries the aggregates
+    return {
+      tasks: classification.sortBy
+        ? this.sortTasksBy(filtered, classification.sortBy, classification.sortOrder)
+        : this.sortTasks(filtered, filters[0]),
+      truncatedSources,
+      hierarchy: classification.operation === 'show' ? this.buildHierarchy(filtered, graph) : undefined,
+      stats: classification.operation === 'stats' ? this.buildStats(filtered, graph) : undefined,
+    };
   }
 
   /**
    * Load tasks based on entity type
    */
-  private async loadTasks(classification: QueryClassification): Promise<TaskData[]> {
+  private async loadTasks(classification: QueryClassification): Promise<QueryResult> {
     switch (classification.entityType) {
-      case 'person':
-        return this.loadPersonTasks(classification.entityId!);
+      case 'person': {
+        const personId = classification.entityId!;
+        // Snapshot only covers configured members - anyone else goes straight to ClickUp
+        if (!memberIds.has(personId)) {
+          const { tasks, truncated } = await this.loadPersonTasks(personId);
+          const label = classification.entityName || personId;
+          return { tasks, truncatedSources: truncated ? [{ kind: 'person', id: personId, label }] : [] };
+        }
+        const tasks = await this.cache.getTasks();
+        return {
+          tasks: tasks.filter(task => (task.assignees || []).some(a => String(a.id) === personId)),
+          truncatedSources: this.snapshotTruncated.filter(s => s.kind === 'person' && s.id === personId),
+        };
+      }
 
       case 'department':
         return this.loadDepartmentTasks(classification.entityId!);
 
+      case 'list':
+      case 'folder':
+      case 'space': {
+        // Any list/folder/space in the workspace, not only configured ones - loaded live
+        const kind = classification.entityType;
+        const id = classification.entityId!;
+        const { tasks, truncated } = await this.fetchTaskPages(
+          `/team/${config.clickup.teamId}/task`,
+          { [LOCATION_PARAMS[kind]]: [id], subtasks: true, archived: false },
+          { [kind]: id }
+        );
+        return { tasks, truncatedSources: truncated ? [{ kind, id, label: classification.entityName || id }] : [] };
+      }
+
       case 'all':
-        return this.loadAllTasks();
+        return { tasks: await this.cache.getTasks(), truncatedSources: this.snapshotTruncated };
 
       default:
         throw new Error(`Unknown entity type: ${classification.entityType}`);
@@ -82,107 +305,312 @@ export class QueryProcessor {
   }
 
   /**
-   * Load tasks for a specific person using REST API
+   * Tasks closed within the requested range (this week by default) for a person,
+   * a department or everyone in scope
    */
-  private async loadPersonTasks(personId: string): Promise<TaskData[]> {
+  private async loadCompletedTasks(classification: QueryClassification): Promise<QueryResult> {
+    const range = classification.dateRange ?? resolvePeriod(undefined, 'this_week');
+    const query: ClickUpQuery = {
+      include_closed: true,
+      subtasks: true,
+      archived: false,
+      date_done_gt: range.from,
+      date_done_lt: range.to,
+    };
+
+    let source: TruncatedSource;
+    let paged: PagedTasks;
+    switch (classification.entityType) {
+      case 'person': {
+        const personId = classification.entityId!;
+        source = { kind: 'person', id: personId, label: classification.entityName || personId };
+        paged = await this.fetchTaskPages(
+          `/team/${config.clickup.teamId}/task`,
+          { ...query, assignees: [personId] },
+          { personId, completed: true }
+        );
+        break;
+      }
+      case 'department': {
+        const listIds = getDepartmentListIds(classification.entityId);
+        if (listIds.length === 0) {
+          logger.warn("department_not_found", { departmentKey: classification.entityId });
+          return { tasks: [], truncatedSources: [] };
+        }
+        source = { kind: 'list', id: listIds[0], label: classification.entityId! };
+        paged = await this.fetchTaskPages(
+          `/team/${config.clickup.teamId}/task`,
+          { ...query, list_ids: listIds },
+          { departmentKey: classification.entityId, completed: true }
+        );
+        break;
+      }
+      case 'list':
+      case 'folder':
+      case 'space': {
+        const kind = classification.entityType;
+        const id = classification.entityId!;
+        source = { kind, id, label: classification.entityName || id };
+        paged = await this.fetchTaskPages(
+          `/team/${config.clickup.teamId}/task`,
+          { ...query, [LOCATION_PARAMS[kind]]: [id] },
+          { [kind]: id, completed: true }
+        );
+        break;
+      }
+      case 'all':
+        source = { kind: 'list', id: 'all', label: 'всі' };
+        paged = await this.fetchTaskPages(`/team/${config.clickup.teamId}/task`, query, { completed: true });
+        paged = { ...paged, tasks: paged.tasks.filter(task => this.isInScope(task)) };
+        break;
+      default:
+        throw new Error(`Unknown entity type: ${classification.entityType}`);
+    }
+
+    return {
+      // "done" statuses set date_done too; reopened tasks keep a stale one
+      tasks: paged.tasks.filter(task => !task.archived && this.isDone(task)),
+      truncatedSources: paged.truncated ? [source] : [],
+    };
+  }
+
+  /**
+   * Created and closed tasks in scope for the throughput report
+   */
+  async loadThroughput(range: DateRange): Promise<{ created: TaskData[]; closed: TaskData[]; truncated: boolean }> {
+    const endpoint = `/team/${config.clickup.teamId}/task`;
+    const base: ClickUpQuery = { include_closed: true, subtasks: true, archived: false };
+    const [created, closed] = await Promise.all([
+      this.fetchTaskPages(endpoint, { ...base, date_created_gt: range.from, date_created_lt: range.to }, { throughput: 'created' }),
+      this.fetchTaskPages(endpoint, { ...base, date_done_gt: range.from, date_done_lt: range.to }, { throughput: 'closed' }),
+    ]);
+
+    return {
+      created: created.tasks.filter(task => this.isInScope(task)),
+      closed: closed.tasks.filter(task => this.isInScope(task) && this.isDone(task)),
+      truncated: created.truncated || closed.truncated,
+    };
+  }
+
+  private isDone(task: TaskData): boolean {
+    return !isOpenStatus(task) && Boolean(task.date_done || task.date_closed);
+  }
+
+  /**
+   * Page through a task endpoint, stopping at MAX_PAGES.
+   * `truncated` is set when the cap (or a failed page) cut the result short.
+   */
+  private async fetchTaskPages(
+    endpoint: string,
+    query: ClickUpQuery,
+    logContext: Record<string, unknown>
+  ): Promise<PagedTasks> {
     const allTasks: TaskData[] = [];
-    let page = 0;
 
-    // Paginate through all tasks for the person using REST API
-    while (page < 10) {
+    for (let page = 0; page < MAX_PAGES; page++) {
+      let response: any;
       try {
-        const response = await this.fetchClickUpAPI(
-          `/team/${config.clickup.teamId}/task?assignees[]=${personId}&subtasks=true&archived=false&page=${page}`
-        );
+        response = await this.clickup.get(endpoint, { ...query, page });
+      } catch (error) {
+        logger.error("task_page_failed", { ...logContext, page, error: String(error) });
+        // Nothing loaded yet - let the caller report the ClickUp error instead of "no tasks"
+        if (page === 0) throw error;
+        return { tasks: allTasks, truncated: true };
+      }
 
-        const tasks: TaskData[] = response.tasks || [];
-        allTasks.push(...tasks);
+      const tasks: TaskData[] = response.tasks || [];
+      allTasks.push(...tasks);
 
-        logger.info("person_tasks_page", { personId, page, count: tasks.length, total: allTasks.length });
+      logger.info("task_page_loaded", { ...logContext, page, count: tasks.length, total: allTasks.length });
 
-        // If we got no tasks, we've reached the end
-        if (tasks.length === 0) break;
-        page++;
-      } catch (error) {
-        logger.error("person_tasks_page_failed", { personId, page, error: String(error) });
-        break;
+      if (tasks.length === 0 || response.last_page) {
+        return { tasks: allTasks, truncated: false };
       }
     }
 
-    logger.info("person_tasks_loaded", { personId, totalTasks: allTasks.length });
+    logger.warn("task_pages_capped", { ...logContext, maxPages: MAX_PAGES, total: allTasks.length });
+    return { tasks: allTasks, truncated: true };
+  }
 
-    return allTasks;
+  /**
+   * Load tasks for a specific person using REST API
+   */
+  private async loadPersonTasks(personId: string): Promise<PagedTasks> {
+    return this.fetchTaskPages(
+      `/team/${config.clickup.teamId}/task`,
+      { assignees: [personId], subtasks: true, archived: false },
+      { personId }
+    );
   }
 
   /**
-   * Load tasks for a department
+   * Load every task in a single list, assigned or not
    */
-  private async loadDepartmentTasks(departmentKey: string): Promise<TaskData[]> {
-    const dept = (departments as any)[departmentKey];
-    if (!dept || !dept.list_ids) {
+  private async loadListTasks(listId: string): Promise<PagedTasks> {
+    return this.fetchTaskPages(
+      `/list/${listId}/task`,
+      { archived: false, subtasks: true },
+      { listId }
+    );
+  }
+
+  /**
+   * Load tasks for a department from the snapshot
+   */
+  private async loadDepartmentTasks(departmentKey: string): Promise<QueryResult> {
+    const listIds = new Set(getDepartmentListIds(departmentKey));
+    if (listIds.size === 0) {
       logger.warn("department_not_found", { departmentKey });
-      return [];
+      return { tasks: [], truncatedSources: [] };
     }
 
-    const allTasks: TaskData[] = [];
+    const tasks = await this.cache.getTasks();
+    const departmentTasks = tasks.filter(task => task.list && listIds.has(String(task.list.id)));
 
-    // Use ClickUp REST API directly - MCP has bugs and doesn't return all tasks
-    for (const listId of dept.list_ids) {
-      try {
-        const response = await this.fetchClickUpAPI(
-          `/list/${listId}/task?archived=false&subtasks=true`
-        );
+    logger.info("department_tasks_loaded", {
+      departmentKey,
+      totalTasks: departmentTasks.length
+    });
 
-        const tasks: TaskData[] = response.tasks || [];
-        allTasks.push(...tasks);
+    return {
+      tasks: departmentTasks,
+      truncatedSources: this.snapshotTruncated.filter(s => s.kind === 'list' && listIds.has(s.id)),
+    };
+  }
 
-        logger.info("department_list_loaded", {
-          departmentKey,
-          listId,
-          count: tasks.length,
-          total: allTasks.length
-        });
+  /**
+   * Load all tasks: every member's assigned tasks plus every task in the configured
+   * department lists (which covers unassigned ones), deduplicated by task id.
+   */
+  private async loadAllTasks(): Promise<TaskData[]> {
+    const sources: Array<TruncatedSource & { load: () => Promise<PagedTasks> }> = [
+      ...members.map(member => ({
+        kind: 'person' as const,
+        id: String(member.id),
+        label: member.name,
+        load: () => this.loadPersonTasks(String(member.id)),
+      })),
+      ...departmentListIds.map(listId => ({
+        kind: 'list' as const,
+        id: listId,
+        label: findDepartmentByListId(listId) ?? listId,
+        load: () => this.loadListTasks(listId),
+      })),
+    ];
+
+    let lastError: unknown = null;
+    let failedSources = 0;
+    const truncated: TruncatedSource[] = [];
+
+    const results = await mapWithConcurrency(sources, config.clickup.loadConcurrency, async (source) => {
+      try {
+        const result = await source.load();
+        if (result.truncated) {
+          truncated.push({ kind: source.kind, id: source.id, label: source.label });
+        }
+        return result.tasks;
       } catch (error) {
-        logger.error("department_list_failed", {
-          departmentKey,
-          listId,
-          error: String(error)
-        });
+        lastError = error;
+        failedSources++;
+        truncated.push({ kind: source.kind, id: source.id, label: source.label, failed: true });
+        logger.error("load_all_source_failed", { kind: source.kind, id: source.id, error: String(error) });
+        return [];
       }
+    });
+
+    if (lastError && failedSources === sources.length) {
+      throw lastError;
     }
 
-    logger.info("department_tasks_loaded", {
-      departmentKey,
-      totalTasks: allTasks.length
+    // A task with several assignees (or in a department list) comes back once per source
+    const byId = new Map<string, TaskData>();
+    let total = 0;
+    for (const tasks of results) {
+      total += tasks.length;
+      for (const task of tasks) {
+        byId.set(task.id, task);
+      }
+    }
+
+    this.snapshotTruncated = truncated;
+    logger.info("load_all_done", {
+      sources: sources.length,
+      failed: failedSources,
+      truncated: truncated.map(s => s.label),
+      fetched: total,
+      unique: byId.size,
     });
 
-    return allTasks;
+    return Array.from(byId.values());
   }
 
   /**
-   * Load all tasks (from all people)
+   * Filters of a classification: the explicit list when given, otherwise the single filterType
    */
-  private async loadAllTasks(): Promise<TaskData[]> {
-    const allTasks: TaskData[] = [];
+  private getFilters(classification: QueryClassification): FilterType[] {
+    const filters = (classification.filters ?? []).filter(filter => filter !== 'none');
+    return filters.length > 0 ? Array.from(new Set(filters)) : [classification.filterType];
+  }
 
-    // Load tasks for each person
-    for (const member of members) {
-      try {
-        const tasks = await this.loadPersonTasks(String(member.id));
-        allTasks.push(...tasks);
-      } catch (error) {
-        logger.error("load_all_person_failed", { personId: member.id, error: String(error) });
+  /**
+   * Combine several filters: 'and' narrows step by step, 'or' keeps tasks matching
+   * any of them in their original order
+   */
+  private applyFilterList(tasks: TaskData[], filters: FilterType[], classification: QueryClassification, graph: DependencyGraph): TaskData[] {
+    const withinDays = classification.withinDays ?? DEFAULT_DUE_SOON_DAYS;
+    if (filters.length === 1) {
+      return this.applyFilters(tasks, filters[0], graph, withinDays);
+    }
+    if (classification.filterMode === 'and') {
+      return filters.reduce((current, filter) => this.applyFilters(current, filter, graph, withinDays), tasks);
+    }
+    const matched = new Set<string>();
+    for (const filter of filters) {
+      for (const task of this.applyFilters(tasks, filter, graph, withinDays)) {
+        matched.add(task.id);
       }
     }
+    return tasks.filter(task => matched.has(task.id));
+  }
+
+  /**
+   * Person queries narrowed to one department ("Аліна у ботоксі"): keep tasks from its lists
+   */
+  private filterByDepartment(tasks: TaskData[], classification: QueryClassification): TaskData[] {
+    if (classification.entityType !== 'person' || !classification.departmentId) {
+      return tasks;
+    }
+    const listIds = new Set(getDepartmentListIds(classification.departmentId));
+    return tasks.filter(task => task.list !== null && listIds.has(String(task.list.id)));
+  }
 
-    return allTasks;
+  /**
+   * Due, created and updated date ranges - a task without the date never matches
+   */
+  private filterByDates(tasks: TaskData[], classification: QueryClassification): TaskData[] {
+    const { dueRange, createdRange, updatedRange } = classification;
+    const within = (value: string | number | null | undefined, range?: DateRange) => {
+      if (!range) return true;
+      const time = Number(value);
+      return Boolean(value) && time >= range.from && time <= range.to;
+    };
+    return tasks.filter(task =>
+      within(task.due_date, dueRange) &&
+      within(task.date_created, createdRange) &&
+      within(task.date_updated, updatedRange)
+    );
   }
 
   /**
    * Apply filters to tasks
    */
-  private applyFilters(tasks: TaskData[], filterType: FilterType): TaskData[] {
+  private applyFilters(tasks: TaskData[], filterType: FilterType, graph: DependencyGraph, withinDays: number): TaskData[] {
     switch (filterType) {
+      case 'blocked':
+        return tasks.filter(task => isBlocked(graph, task.id));
+      case 'completed':
+        // Already narrowed to the closing date range when loaded
+        return tasks;
       case 'in_progress':
         return this.filterInProgress(tasks);
       case 'overdue':
@@ -194,6 +622,12 @@ export class QueryProcessor {
       case 'due_today':
         return this.filterDueToday(tasks);
 
+      case 'due_soon':
+        return tasks.filter(task => isDueSoon(task, withinDays));
+
+      case 'at_risk':
+        return tasks.filter(task => isAtRisk(task, withinDays));
+
       case 'none':
         return tasks;
 
@@ -203,37 +637,172 @@ export class QueryProcessor {
   }
 
   /**
-   * Filter tasks that are in progress
+   * Parent names, overdue-subtask counts and dependency markers for the tasks in a result.
+   * Parents and blockers are often outside the filtered set (another assignee, no due date),
+   * so they are looked up in the whole snapshot.
    */
-  private filterInProgress(tasks: TaskData[]): TaskData[] {
-    const progressKeywords = [
-      'in progress',
-      'progress',
-      'робот',
-      'в роботі',
-      'в процесі',
-      'in work',
-      'working',
-    ];
+  private buildHierarchy(tasks: TaskData[], graph: DependencyGraph): TaskHierarchy {
+    const { byId } = graph;
+    const todayStart = DateTime.now().setZone(config.timezone).startOf('day');
+    const parentNames = new Map<string, string>();
+    const overdueSubtasks = new Map<string, number>();
+
+    for (const task of byId.values()) {
+      if (task.parent && isOverdue(task, todayStart)) {
+        overdueSubtasks.set(task.parent, (overdueSubtasks.get(task.parent) ?? 0) + 1);
+      }
+    }
 
+    const blocksCount = new Map<string, number>();
+    const waitingOnNames = new Map<string, string[]>();
+    for (const task of tasks) {
+      const parent = task.parent ? byId.get(task.parent) : undefined;
+      if (parent) {
+        parentNames.set(parent.id, parent.name);
+      }
+      const blocked = graph.blocks.get(task.id)?.size ?? 0;
+      if (blocked > 0) {
+        blocksCount.set(task.id, blocked);
+      }
+      if (isBlocked(graph, task.id)) {
+        waitingOnNames.set(task.id, getBlockers(graph, task.id).map(blocker => blocker.name));
+      }
+    }
+
+    return { parentNames, overdueSubtasks, blocksCount, waitingOnNames };
+  }
+
+  /**
+   * Aggregates for the 'stats' operation, using the same overdue/stuck/due-today rules as the filters
+   */
+  private buildStats(tasks: TaskData[], graph: DependencyGraph): TaskStats {
+    const todayStart = DateTime.now().setZone(config.timezone).startOf('day');
+    const overdue = this.filterOverdue(tasks);
+    const overdueDays = overdue.map(task =>
+      Math.floor(todayStart.diff(DateTime.fromMillis(Number(task.due_date)).setZone(config.timezone).startOf('day'), 'days').days)
+    );
+
+    let oldestStuck: TaskStats['oldestStuck'] = null;
+    const stuck = this.filterStuck(tasks);
+    for (const task of stuck) {
+      const days = Math.floor(todayStart.diff(DateTime.fromMillis(Number(task.date_created)).setZone(config.timezone).startOf('day'), 'days').days);
+      if (!oldestStuck || days > oldestStuck.days) {
+        oldestStuck = { task, days };
+      }
+    }
+
+    return {
+      total: tasks.length,
+      overdue: overdue.length,
+      avgOverdueDays: overdueDays.length > 0 ? overdueDays.reduce((sum, days) => sum + days, 0) / overdueDays.length : null,
+      stuck: stuck.length,
+      oldestStuck,
+      dueToday: this.filterDueToday(tasks).length,
+      blocked: tasks.filter(task => isBlocked(graph, task.id)).length,
+      unassigned: tasks.filter(task => (task.assignees || []).length === 0).length,
+    };
+  }
+
+  /**
+   * The cached snapshot plus anything loaded outside it (non-member queries)
+   */
+  private async getSnapshot(loaded: TaskData[]): Promise<TaskData[]> {
+    const byId = new Map<string, TaskData>();
+    for (const task of [...(await this.cache.getTasks()), ...loaded]) {
+      byId.set(task.id, task);
+    }
+    return Array.from(byId.values());
+  }
+
+  /**
+   * Every open task in scope, for workspace-wide reports
+   */
+  async getAllTasks(): Promise<TaskData[]> {
+    return this.cache.getTasks();
+  }
+
+  /**
+   * Narrow by priority, tag and custom field - each applies only when requested
+   */
+  private filterByAttributes(tasks: TaskData[], classification: QueryClassification): TaskData[] {
+    const { priority, tag, customField } = classification;
     return tasks.filter(task => {
-      const statusName = this.getStatusString(task.status).toLowerCase();
-      return progressKeywords.some((kw) => statusName.includes(kw));
+      if (priority && priority.length > 0) {
+        const level = getPriorityLevel(task);
+        if (level === null || !priority.includes(level)) return false;
+      }
+      if (tag && !hasTag(task, tag)) return false;
+      if (customField && !matchesCustomField(task, customField)) return false;
+      return true;
     });
   }
 
+  /**
+   * Overdue and stuck lists are ranked by priority weight, then by how long
+   * the problem has lasted; completed ones are newest first; upcoming deadlines are nearest first;
+   * other lists keep ClickUp's order.
+   */
+  private sortTasks(tasks: TaskData[], filterType: FilterType): TaskData[] {
+    if (filterType === 'completed') {
+      const doneAt = (task: TaskData) => Number(task.date_done || task.date_closed) || 0;
+      return tasks.slice().sort((a, b) => doneAt(b) - doneAt(a));
+    }
+    if (filterType === 'due_soon' || filterType === 'at_risk') {
+      return this.sortTasksBy(tasks, 'due_date');
+    }
+    if (filterType !== 'overdue' && filterType !== 'stuck') {
+      return tasks;
+    }
+    const since = (task: TaskData) => Number(filterType === 'overdue' ? task.due_date : task.date_created) || 0;
+    return tasks
+      .slice()
+      .sort((a, b) => getPriorityWeight(b) - getPriorityWeight(a) || since(a) - since(b));
+  }
+
+  /**
+   * Explicit ordering requested by the user. Tasks without the value (no due date,
+   * not overdue) go last whatever the direction; ties go to the higher priority.
+   */
+  private sortTasksBy(tasks: TaskData[], sortBy: SortBy, sortOrder?: SortOrder): TaskData[] {
+    const todayStart = DateTime.now().setZone(config.timezone).startOf('day');
+    const valueOf = (task: TaskData): number | null => {
+      switch (sortBy) {
+        case 'due_date':
+          return task.due_date ? Number(task.due_date) : null;
+        case 'overdue_days':
+          return isOverdue(task, todayStart) ? todayStart.toMillis() - Number(task.due_date) : null;
+        case 'updated':
+          return task.date_updated ? Number(task.date_updated) : null;
+        case 'priority':
+          return getPriorityLevel(task) ? getPriorityWeight(task) : null;
+      }
+    };
+    const direction = (sortOrder ?? (sortBy === 'due_date' ? 'asc' : 'desc')) === 'asc' ? 1 : -1;
+
+    return tasks
+      .map(task => ({ task, value: valueOf(task) }))
+      .sort((a, b) => {
+        if (a.value === null || b.value === null) {
+          return a.value === b.value ? getPriorityWeight(b.task) - getPriorityWeight(a.task) : a.value === null ? 1 : -1;
+        }
+        return (a.value - b.value) * direction || getPriorityWeight(b.task) - getPriorityWeight(a.task);
+      })
+      .map(({ task }) => task);
+  }
+
+  /**
+   * Filter tasks that are in progress (the 'active' status category)
+   */
+  private filterInProgress(tasks: TaskData[]): TaskData[] {
+    return tasks.filter(task => getTaskStatusCategory(task) === 'active');
+  }
+
   /**
    * Filter overdue tasks
    */
   private filterOverdue(tasks: TaskData[]): TaskData[] {
-    const now = DateTime.now().setZone(config.timezone);
-    const todayStart = now.startOf('day');
-
-    return tasks.filter(task => {
-      if (!task.due_date) return false;
-      const due = DateTime.fromMillis(Number(task.due_date)).setZone(config.timezone);
-      return due.startOf('day') < todayStart;
-    });
+    const todayStart = DateTime.now().setZone(config.timezone).startOf('day');
+    return tasks.filter(task => isOverdue(task, todayStart));
   }
 
   /**
@@ -241,12 +810,6 @@ export class QueryProcessor {
    */
   private filterStuck(tasks: TaskData[]): TaskData[] {
     const now = DateTime.now().setZone(config.timezone);
-    const activeStatuses = [
-      'сьогодні', 'today', 'urgent', 'в роботі', 'in progress',
-      'задачі на сьогодні', 'на затвердження', 'допрацювати',
-      'усі задачі', 'all tasks', 'to do', 'open', 'backlog'
-    ];
-
     const debugInfo: any[] = [];
 
     const filtered = tasks.filter(task => {
@@ -260,12 +823,10 @@ export class QueryProcessor {
           return false;
         }
 
-        // Check 2: Status is active?
+        // Check 2: Status is not finished?
         const statusName = this.getStatusString(task.status).toLowerCase();
-
-        const isActiveStatus = activeStatuses.some(s => statusName.includes(s));
-        if (!isActiveStatus) {
-          reasons.push(`inactive_status:${statusName}`);
+        if (!isOpenStatus(task)) {
+          reasons.push(`done_status:${statusName}`);
           debugInfo.push({ name: task.name, status: statusName, reason: reasons.join(', '), include: false });
           return false;
         }
@@ -329,7 +890,7 @@ export class QueryProcessor {
     const todayStr = now.toFormat("yyyy-MM-dd");
 
     return tasks.filter(task => {
-      if (!task.due_date) return false;
+      if (!task.due_date || !isOpenStatus(task)) return false;
       const due = DateTime.fromMillis(Number(task.due_date)).setZone(config.timezone);
       const dueDateStr = due.toFormat("yyyy-MM-dd");
       return dueDateStr === todayStr;
@@ -4,16 +4,55 @@
 
 export type EntityType =
   | 'person'      // Specific person's tasks
-  | 'department'  // Department's tasks
+  | 'department'  // Department's tasks, or every department of a group
+  | 'list'        // One ClickUp list
+  | 'folder'      // One ClickUp folder
+  | 'space'       // One ClickUp space
   | 'all';        // All tasks
 
+export type LocationType = Extract<EntityType, 'list' | 'folder' | 'space'>;
+
 export type FilterType =
   | 'overdue'     // Tasks past due date
   | 'stuck'       // Tasks without due date and old
   | 'due_today'   // Tasks due today
   | 'in_progress' // Tasks currently in progress
+  | 'blocked'     // Tasks waiting on another open task
+  | 'completed'   // Tasks closed within a date range
+  | 'due_soon'    // Tasks due within the next withinDays days
+  | 'at_risk'     // Due soon but idle or not started yet
   | 'none';       // No filter
 
+export type FilterMode =
+  | 'or'          // Task matches any of the filters
+  | 'and';        // Task matches all of them
+
+export type GroupBy = 'project' | 'person' | 'status' | 'priority' | 'due_week';
+
+export type SortBy =
+  | 'due_date'      // Earliest due first; no due date last
+  | 'overdue_days'  // Most days overdue first
+  | 'updated'       // Most recently updated first
+  | 'priority';     // Urgent first
+
+export type SortOrder = 'asc' | 'desc';
+
+export type PriorityLevel = 'urgent' | 'high' | 'normal' | 'low';
+
+export type CustomFieldMatch = 'equals' | 'contains';
+
+export interface CustomFieldFilter {
+  name: string;           // Custom field name, e.g. "Клієнт"
+  match: CustomFieldMatch;
+  value: string;
+}
+
+export interface DateRange {
+  from: number;   // Epoch ms, inclusive
+  to: number;     // Epoch ms, inclusive
+  label: string;  // For titles, e.g. "цього тижня" or "01.10–15.10"
+}
+
 export type OperationType =
   | 'show'        // Show tasks
   | 'count'       // Count tasks
@@ -21,21 +60,108 @@ export type OperationType =
 
 export interface QueryClassification {
   entityType: EntityType;
-  entityId?: string;      // person ID or department key
+  entityId?: string;      // person ID, department/group key or ClickUp list/folder/space ID
   entityName?: string;    // person name or department name
+  departmentId?: string;  // Person queries only: keep their tasks in this department
   filterType: FilterType;
+  filters?: FilterType[];      // Several filters at once; filterType is then the first of them
+  filterMode?: FilterMode;     // How `filters` combine (default 'or')
+  withinDays?: number;         // Horizon of 'due_soon' and 'at_risk' (default 3)
+  priority?: PriorityLevel[];  // Keep only these priorities (empty/undefined = any)
+  tag?: string;                // Keep only tasks with this tag
+  customField?: CustomFieldFilter;
+  dateRange?: DateRange;       // Closing date range for 'completed'
+  dueRange?: DateRange;        // Due date within the range (tasks without one drop out)
+  createdRange?: DateRange;
+  updatedRange?: DateRange;
+  sortBy?: SortBy;             // Replaces the filter's default order
+  sortOrder?: SortOrder;       // Default is the direction noted on SortBy
   operation: OperationType;
 }
 
 export interface TaskData {
   id: string;
   name: string;
+  description?: string;
+  text_content?: string;   // Description as plain text
   status: string | { status: string; id: string; color: string; type: string; orderindex: number };
   due_date: string | null;
-  assignees: Array<{ id: string; username: string }>;
+  assignees: Array<{ id: string; username: string | null; email?: string }>;
   list: { id: string; name: string } | null;
   folder: { id: string; name: string } | null;
   space: { id: string; name: string } | null;
   url: string;
   date_created: string;
+  date_updated?: string | null;
+  date_done?: string | null;
+  date_closed?: string | null;
+  archived?: boolean;
+  priority?: { id: string; priority: string; color: string; orderindex: string } | null;
+  tags?: Array<{ name: string; tag_fg?: string; tag_bg?: string }>;
+  custom_fields?: TaskCustomField[];
+  parent?: string | null;  // Parent task id for subtasks
+  checklists?: TaskChecklist[];
+  dependencies?: Array<{ task_id: string; depends_on: string; type?: number }>;  // task_id waits on depends_on
+  time_estimate?: number | null;  // ms
+  time_spent?: number | null;     // ms, tracked by everyone
+  subtasks?: TaskData[];          // Only with include_subtasks on a single-task request
+}
+
+export interface TaskChecklist {
+  id: string;
+  name: string;
+  resolved?: number;
+  unresolved?: number;
+  items?: Array<{ id: string; name: string; resolved: boolean }>;
 }
+
+export interface TaskCustomField {
+  id: string;
+  name: string;
+  type: string;  // short_text, text, drop_down, labels, number, currency, date, users, checkbox, ...
+  type_config?: {
+    options?: Array<{ id: string; name?: string; label?: string; orderindex?: number }>;
+    [key: string]: unknown;
+  };
+  value?: unknown;  // Absent when the field is not set on the task
+}
+
+export interface TruncatedSource {
+  kind: 'person' | LocationType;
+  id: string;
+  label: string;
+  failed?: boolean;  // Not loaded at all (request error), not just cut by the page cap
+}
+
+export interface TaskHierarchy {
+  parentNames: Map<string, string>;       // Parent id -> name, for subtasks whose parent is known
+  overdueSubtasks: Map<string, number>;   // Parent id -> open overdue subtasks
+  blocksCount: Map<string, number>;       // Task id -> open tasks waiting on it
+  waitingOnNames: Map<string, string[]>;  // Task id -> names of open tasks it waits on
+}
+
+export interface QueryResult {
+  tasks: TaskData[];
+  truncatedSources: TruncatedSource[];  // Sources cut short by the page cap or not loaded at all
+  hierarchy?: TaskHierarchy;            // 'show' only
+  stats?: TaskStats;                    // 'stats' only
+}
+
+export interface TaskStats {
+  total: number;
+  overdue: number;
+  avgOverdueDays: number | null;  // Days past the due date, overdue tasks only
+  stuck: number;
+  oldestStuck: { task: TaskData; days: number } | null;
+  dueToday: number;
+  blocked: number;
+  unassigned: number;
+}
+
+export type LocationLookup =
+  | { id: string; name: string }
+  | { error: string };  // Message for the model when no list/folder/space has that name
+
+export type TaskLookup =
+  | { task: TaskData }
+  | { error: string };  // Message for the model when the task is unknown or ambiguous
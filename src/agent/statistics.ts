@@ -1,33 +1,31 @@
 import { DateTime } from "luxon";
 import { config } from "../config/config";
+import { isOpenStatus } from "../config/statuses";
 import { logger } from "../utils/logger";
+import { isOverdue } from "./deadlineRisk";
+import { getPriorityWeight } from "./priority";
 
 /**
- * Generate overdue statistics by assignee
+ * Generate overdue statistics by assignee.
+ * People are ranked by priority-weighted problems, so one urgent overdue task
+ * outranks several low-priority ones.
  */
 export function generateOverdueStats(allTasks: any[]): string {
   logger.info("stats_generation_start", { totalTasks: allTasks.length });
   const now = DateTime.now().setZone(config.timezone);
-  const todayStart = now.startOf('day');
-  
-  const activeStatuses = [
-    'сьогодні', 'today', 'urgent', 'в роботі', 'in progress', 
-    'задачі на сьогодні', 'на затвердження', 'допрацювати',
-    'усі задачі', 'all tasks', 'to do', 'open', 'backlog'
-  ];
   
   // Group by assignee
   const statsByAssignee = new Map<string, { 
     hardOverdue: number; 
     stuck: number; 
     dueToday: number;
+    score: number;
     departments: Set<string>;
   }>();
   
   for (const task of allTasks) {
-    // API already returns only open tasks (include_closed: false)
-    const statusName = (task.status?.status || '').toLowerCase();
-    
+    // Done-type statuses (incl. statuses.json overrides) are neither overdue nor due today
+    if (!isOpenStatus(task)) continue;
     const assignees = task.assignees || [];
     if (assignees.length === 0) continue; // Skip unassigned
     
@@ -38,11 +36,11 @@ export function generateOverdueStats(allTasks: any[]): string {
     const dueDateStr = due ? due.toFormat("yyyy-MM-dd") : null;
     const todayStr = now.toFormat("yyyy-MM-dd");
     const isDueToday = dueDateStr === todayStr;
-    const isHardOverdue = due ? due.startOf('day') < todayStart : false;
+    const isHardOverdue = isOverdue(task, now);
+    
+    const isStuck = !due && daysOld >= 1;
     
-    const statusLower = statusName;
-    const isActiveStatus = activeStatuses.some(s => statusLower.includes(s));
-    const isStuck = !due && isActiveStatus && daysOld >= 1;
+    const weight = getPriorityWeight(task);
     
     const department = task.list?.name || task.folder?.name || task.space?.name || 'Без відділу';
     
@@ -52,17 +50,18 @@ export function generateOverdueStats(allTasks: any[]): string {
       if (!name || name === 'Unknown') continue;
       
       if (!statsByAssignee.has(name)) {
-        statsByAssignee.set(name, { hardOverdue: 0, stuck: 0, dueToday: 0, departments: new Set() });
+        statsByAssignee.set(name, { hardOverdue: 0, stuck: 0, dueToday: 0, score: 0, departments: new Set() });
       }
       const stats = statsByAssignee.get(name)!;
       stats.departments.add(department);
       if (isHardOverdue) stats.hardOverdue++;
       if (isStuck) stats.stuck++;
       if (isDueToday) stats.dueToday++;
+      if (isHardOverdue || isStuck || isDueToday) stats.score += weight;
     }
   }
   
-  // Sort by total problems
+  // Sort by weighted problems, then by count
   const sorted = Array.from(statsByAssignee.entries())
     .map(([name, stats]) => ({
       name,
@@ -70,15 +69,17 @@ export function generateOverdueStats(allTasks: any[]): string {
       hardOverdue: stats.hardOverdue,
       stuck: stats.stuck,
       dueToday: stats.dueToday,
+      score: stats.score,
       departments: Array.from(stats.departments)
     }))
     .filter(s => s.total > 0)
-    .sort((a, b) => b.total - a.total);
+    .sort((a, b) => b.score - a.score || b.total - a.total);
   
   logger.info("stats_generation_done", { 
     totalPeople: sorted.length,
     topPerson: sorted[0]?.name,
-    topTotal: sorted[0]?.total
+    topTotal: sorted[0]?.total,
+    topScore: sorted[0]?.score
   });
   
   if (sorted.length === 0) {
@@ -0,0 +1,190 @@
+import { findDepartmentByListId } from "../config/departments";
+import { classifyStatus } from "../config/statuses";
+import { escapeAttr, escapeHtml } from "../utils/html";
+import { logger } from "../utils/logger";
+import { DateRange, TaskData } from "./queryTypes";
+import { TaskStatusTimes } from "./timeInStatus";
+
+// Fewer samples than this give no meaningful 90th percentile, so no norm is set
+const MIN_SAMPLES_FOR_NORM = 5;
+const TASK_LIST_LIMIT = 10;
+
+type StatusStats = { status: string; samples: number; median: number; p90: number };
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+const percentile = (sorted: number[], p: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+
+const summarize = (status: string, minutes: number[]): StatusStats => {
+  const sorted = minutes.slice().sort((a, b) => a - b);
+  return { status, samples: sorted.length, median: percentile(sorted, 50), p90: percentile(sorted, 90) };
+};
+
+const formatDuration = (minutes: number): string => {
+  if (minutes < 60) return `${Math.round(minutes)} хв`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)} год`;
+  const days = minutes / (24 * 60);
+  return `${days < 10 ? days.toFixed(1) : Math.round(days)} дн`;
+};
+
+const departmentOf = (task: TaskData): string => findDepartmentByListId(task.list?.id) || "Без відділу";
+
+const statusKey = (status: string) => status.trim().toLowerCase();
+
+/**
+ * Cycle time: time spent in work statuses (active, review, rework), i.e. everything
+ * except backlog and the closing ones.
+ */
+const cycleMinutes = (task: TaskData, times: TaskStatusTimes): number =>
+  times.history
+    .filter((item) => {
+      const category = classifyStatus(item, task.list?.id);
+      return category !== "backlog" && category !== "done";
+    })
+    .reduce((sum, item) => sum + item.minutes, 0);
+
+export type StatusTimeReportInput = {
+  title: string;
+  openTasks: TaskData[];
+  completedTasks: TaskData[];
+  completedRange: DateRange;
+  times: Map<string, TaskStatusTimes>;
+  failedChunks?: number;  // Bulk time-in-status requests that failed
+  status?: string;  // Only this status (partial, case-insensitive)
+};
+
+/**
+ * Median / 90th-percentile time per status per department, cycle time of tasks
+ * closed in the period, and open tasks sitting in their status longer than the
+ * department's 90th percentile for it. Norms come from finished stays only - an open
+ * task's current status is still running and would drag the norm towards itself.
+ */
+export function generateStatusTimeReport(input: StatusTimeReportInput): string {
+  const { times } = input;
+  const wanted = input.status ? statusKey(input.status) : null;
+  const matchesStatus = (status: string) => !wanted || statusKey(status).includes(wanted);
+
+  // Department -> status -> minutes per task, from statuses the task has already left
+  const samples = new Map<string, Map<string, { label: string; minutes: number[] }>>();
+  const openIds = new Set(input.openTasks.map((task) => task.id));
+  for (const task of [...input.openTasks, ...input.completedTasks]) {
+    const taskTimes = times.get(task.id);
+    if (!taskTimes) continue;
+    const department = departmentOf(task);
+    if (!samples.has(department)) {
+      samples.set(department, new Map());
+    }
+    const byStatus = samples.get(department)!;
+    const currentKey = openIds.has(task.id) && taskTimes.current ? statusKey(taskTimes.current.status) : null;
+    for (const item of taskTimes.history) {
+      if (classifyStatus(item, task.list?.id) === "done" || !matchesStatus(item.status)) continue;
+      if (statusKey(item.status) === currentKey) continue;
+      const key = statusKey(item.status);
+      if (!byStatus.has(key)) {
+        byStatus.set(key, { label: item.status, minutes: [] });
+      }
+      byStatus.get(key)!.minutes.push(item.minutes);
+    }
+  }
+
+  const stats = new Map<string, StatusStats[]>();
+  for (const [department, byStatus] of samples) {
+    const rows = Array.from(byStatus.values())
+      .map(({ label, minutes }) => summarize(label, minutes))
+      .sort((a, b) => b.median - a.median);
+    if (rows.length > 0) {
+      stats.set(department, rows);
+    }
+  }
+
+  // Open tasks in their current status, with the department norm when there is one
+  const waiting: Array<{ task: TaskData; status: string; minutes: number; norm: number | null }> = [];
+  for (const task of input.openTasks) {
+    const current = times.get(task.id)?.current;
+    if (!current || !matchesStatus(current.status)) continue;
+    const row = stats.get(departmentOf(task))?.find((item) => statusKey(item.status) === statusKey(current.status));
+    const norm = row && row.samples >= MIN_SAMPLES_FOR_NORM ? row.p90 : null;
+    waiting.push({ task, status: current.status, minutes: current.minutes, norm });
+  }
+  const overNorm = waiting
+    .filter((item) => item.norm !== null && item.minutes > item.norm)
+    .sort((a, b) => b.minutes / b.norm! - a.minutes / a.norm!);
+
+  const cycles = input.completedTasks
+    .map((task) => {
+      const taskTimes = times.get(task.id);
+      return taskTimes ? cycleMinutes(task, taskTimes) : 0;
+    })
+    .filter((minutes) => minutes > 0);
+
+  logger.info("status_time_report_done", {
+    openTasks: input.openTasks.length,
+    completedTasks: input.completedTasks.length,
+    withTimes: times.size,
+    failedChunks: input.failedChunks ?? 0,
+    departments: stats.size,
+    waiting: waiting.length,
+    overNorm: overNorm.length,
+  });
+
+  const lines = [`⏱ <b>Час у статусах — ${escapeHtml(input.title)}</b>`];
+  if (input.failedChunks) {
+    lines.push(`⚠️ <i>Неповні дані: ClickUp не повернув час у статусах для частини задач (невдалих запитів: ${input.failedChunks})</i>`);
+  }
+  if (!wanted) {
+    if (cycles.length > 0) {
+      const cycle = summarize("cycle", cycles);
+      lines.push(
+        `🔁 Цикл задачі (закриті ${escapeHtml(input.completedRange.label)}, ${cycle.samples}): ` +
+          `медіана ${formatDuration(cycle.median)}, 90% — ${formatDuration(cycle.p90)}`
+      );
+    } else if (input.completedTasks.length === 0) {
+      lines.push(`🔁 Закритих задач ${escapeHtml(input.completedRange.label)} немає — цикл не пораховано`);
+    } else {
+      lines.push(`🔁 Задачі ${escapeHtml(input.completedRange.label)} закривали, не проходячи робочі статуси — цикл не пораховано`);
+    }
+  }
+  lines.push("");
+
+  if (times.size === 0) {
+    lines.push("Немає даних про час у статусах. Перевірте, що в ClickUp увімкнено Time in Status.");
+    return lines.join("\n");
+  }
+  if (stats.size === 0 && waiting.length === 0) {
+    lines.push("Задач у цьому статусі не знайдено.");
+    return lines.join("\n");
+  }
+
+  for (const [department, rows] of stats) {
+    lines.push(`📂 <b>${escapeHtml(department)}</b>`);
+    for (const row of rows) {
+      lines.push(
+        `• ${escapeHtml(row.status)} — медіана ${formatDuration(row.median)}, 90% — ${formatDuration(row.p90)} (${row.samples})`
+      );
+    }
+    lines.push("");
+  }
+
+  // Asked about one status: everything sitting in it now, longest first; otherwise only the outliers
+  const shown = wanted ? waiting.slice().sort((a, b) => b.minutes - a.minutes) : overNorm;
+  if (shown.length > 0) {
+    lines.push(wanted ? `⏳ <b>Зараз у статусі (${shown.length}):</b>` : `⚠️ <b>Довше норми (${shown.length}):</b>`);
+    for (const { task, status, minutes, norm } of shown.slice(0, TASK_LIST_LIMIT)) {
+      const owners = (task.assignees || []).map((assignee) => assignee.username).join(", ") || "без виконавця";
+      const normText = norm === null ? "" : ` (норма ${formatDuration(norm)})${wanted && minutes > norm ? " ⚠️" : ""}`;
+      lines.push(
+        `• <a href="${escapeAttr(task.url)}">${escapeHtml(task.name)}</a> — ${escapeHtml(status)} ` +
+          `${formatDuration(minutes)}${normText} • 👤 ${escapeHtml(owners)}`
+      );
+    }
+    if (shown.length > TASK_LIST_LIMIT) {
+      lines.push(`<i>...та ще ${shown.length - TASK_LIST_LIMIT}</i>`);
+    }
+    lines.push("");
+  }
+
+  lines.push(`<i>Норма — 90-й перцентиль часу в статусі по відділу (від ${MIN_SAMPLES_FOR_NORM} задач)</i>`);
+  return lines.join("\n");
+}
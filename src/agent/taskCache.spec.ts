@@ -0,0 +1,152 @@
+import { ClickUpClient } from "../clickup/client";
+import { TaskData } from "./queryTypes";
+import { TaskCache } from "./taskCache";
+
+const NOW = Date.UTC(2026, 9, 19, 6);
+const MINUTE = 60 * 1000;
+
+const open = { status: "in progress", id: "s1", color: "#000", type: "custom", orderindex: 1 };
+const closed = { status: "closed", id: "s9", color: "#000", type: "closed", orderindex: 9 };
+
+const task = (id: string, overrides: Partial<TaskData> = {}): TaskData => ({
+  id,
+  name: `Task ${id}`,
+  status: open,
+  due_date: null,
+  assignees: [],
+  list: { id: "901", name: "Sales" },
+  folder: null,
+  space: null,
+  url: `https://app.clickup.com/t/${id}`,
+  date_created: String(NOW - 60 * MINUTE),
+  ...overrides,
+});
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+const ids = (tasks: TaskData[]) => tasks.map((item) => item.id).sort();
+
+describe("TaskCache", () => {
+  let now: number;
+  let get: jest.Mock;
+  let loadAll: jest.Mock<Promise<TaskData[]>, []>;
+  let cache: TaskCache;
+
+  beforeEach(() => {
+    now = NOW;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    get = jest.fn();
+    loadAll = jest.fn();
+    cache = new TaskCache(
+      { get } as unknown as ClickUpClient,
+      loadAll,
+      (item) => item.list?.id === "901",
+      { maxAgeMs: MINUTE, fullResyncMs: 30 * MINUTE }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("loads everything first and keeps only open tasks", async () => {
+    loadAll.mockResolvedValueOnce([task("a"), task("b", { status: closed }), task("c", { archived: true })]);
+
+    expect(ids(await cache.getTasks())).toEqual(["a"]);
+    expect(loadAll).toHaveBeenCalledTimes(1);
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it("merges changes since the last sync into the snapshot", async () => {
+    loadAll.mockResolvedValueOnce([task("a"), task("b"), task("c")]);
+    await cache.getTasks();
+
+    // Within maxAgeMs the snapshot is served as is
+    now = NOW + MINUTE;
+    await cache.getTasks();
+    expect(get).not.toHaveBeenCalled();
+
+    now = NOW + 2 * MINUTE;
+    get
+      .mockResolvedValueOnce({
+        tasks: [
+          task("a", { name: "Renamed" }),
+          task("b", { status: closed }),
+          task("c", { list: { id: "902", name: "Other" } }),
+          task("d"),
+        ],
+      })
+      .mockResolvedValueOnce({ tasks: [] });
+
+    const tasks = await cache.getTasks();
+
+    expect(ids(tasks)).toEqual(["a", "d"]);
+    expect(tasks.find((item) => item.id === "a")?.name).toBe("Renamed");
+    expect(get).toHaveBeenCalledTimes(2);
+    // Overlaps the previous sync by a minute
+    expect(get.mock.calls[0][1]).toMatchObject({ date_updated_gt: NOW - MINUTE, include_closed: true, page: 0 });
+    expect(get.mock.calls[1][1]).toMatchObject({ page: 1 });
+    expect(loadAll).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops paging at the last page", async () => {
+    loadAll.mockResolvedValueOnce([]);
+    await cache.getTasks();
+
+    now = NOW + 2 * MINUTE;
+    get.mockResolvedValueOnce({ tasks: [task("a")], last_page: true });
+
+    expect(ids(await cache.getTasks())).toEqual(["a"]);
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it("reloads everything once fullResyncMs has passed", async () => {
+    loadAll.mockResolvedValueOnce([task("a")]).mockResolvedValueOnce([task("b")]);
+    await cache.getTasks();
+
+    now = NOW + 31 * MINUTE;
+
+    expect(ids(await cache.getTasks())).toEqual(["b"]);
+    expect(loadAll).toHaveBeenCalledTimes(2);
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it("does not poll for changes while live", async () => {
+    loadAll.mockResolvedValueOnce([task("a")]);
+    await cache.getTasks();
+    cache.setLive(true);
+
+    now = NOW + 10 * MINUTE;
+    await cache.getTasks();
+
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it("shares a sync in flight and runs a full sync requested during it afterwards", async () => {
+    const first = deferred<TaskData[]>();
+    loadAll
+      .mockReturnValueOnce(first.promise)
+      .mockResolvedValueOnce([task("b")])
+      .mockResolvedValueOnce([task("b"), task("c")]);
+
+    const read = cache.getTasks();
+    const concurrentRead = cache.getTasks();
+    const refresh = cache.fullSync();
+    first.resolve([task("a")]);
+
+    expect(await refresh).toBe(1);
+    expect(ids(await read)).toEqual(["b"]);
+    expect(ids(await concurrentRead)).toEqual(["b"]);
+    expect(loadAll).toHaveBeenCalledTimes(2);
+
+    // The pending flag is cleared once served
+    expect(await cache.fullSync()).toBe(2);
+    expect(loadAll).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,186 @@
+import { config } from "../config/config";
+import { isOpenStatus } from "../config/statuses";
+import { logger } from "../utils/logger";
+import { ClickUpClient } from "../clickup/client";
+import { TaskData } from "./queryTypes";
+
+// ClickUp returns 100 tasks per page; stop long before a runaway loop
+const MAX_INCREMENTAL_PAGES = 50;
+// Overlap between syncs so edits racing with the previous sync are not missed
+const SYNC_OVERLAP_MS = 60_000;
+
+type TaskCacheOptions = {
+  maxAgeMs: number;
+  fullResyncMs: number;
+};
+
+/**
+ * In-process snapshot of all open tasks.
+ * The first read (and every `fullResyncMs`) loads everything through `loadAll`;
+ * in between, only tasks changed since the last sync are fetched via `date_updated_gt`.
+ */
+export class TaskCache {
+  private tasks = new Map<string, TaskData>();
+  private watermark: number | null = null;
+  private lastSyncAt: number | null = null;
+  private lastFullSyncAt: number | null = null;
+  private lastEventAt: number | null = null;
+  private syncing: Promise<void> | null = null;
+  private fullSyncPending = false;
+  private live = false;
+
+  constructor(
+    private clickup: ClickUpClient,
+    private loadAll: () => Promise<TaskData[]>,
+    private inScope: (task: TaskData) => boolean,
+    private options: TaskCacheOptions = {
+      maxAgeMs: config.taskCache.maxAgeMs,
+      fullResyncMs: config.taskCache.fullResyncMs,
+    }
+  ) {}
+
+  /**
+   * Returns the snapshot, syncing first if it is older than `maxAgeMs`.
+   */
+  async getTasks(): Promise<TaskData[]> {
+    const now = Date.now();
+    if (this.lastFullSyncAt === null || now - this.lastFullSyncAt > this.options.fullResyncMs) {
+      await this.runExclusive(() => this.loadFull());
+    } else if (!this.live && (this.lastSyncAt === null || now - this.lastSyncAt > this.options.maxAgeMs)) {
+      await this.runExclusive(() => this.loadChanges());
+    }
+    return Array.from(this.tasks.values());
+  }
+
+  /**
+   * Drop the snapshot and reload everything from ClickUp.
+   */
+  async fullSync(): Promise<number> {
+    if (this.syncing) {
+      // The sync in flight may be incremental or already past the change - reload again after it
+      this.fullSyncPending = true;
+    }
+    await this.runExclusive(() => this.loadFull());
+    return this.tasks.size;
+  }
+
+  /**
+   * Milliseconds since the snapshot was last synced with ClickUp, or null before the first sync.
+   * Once live, a received webhook counts as a sync too, so a silent webhook feed still shows up as stale data.
+   */
+  getAgeMs(): number | null {
+    if (this.lastSyncAt === null) {
+      return null;
+    }
+    const lastUpdateAt = this.live ? Math.max(this.lastSyncAt, this.lastEventAt ?? 0) : this.lastSyncAt;
+    return Date.now() - lastUpdateAt;
+  }
+
+  /**
+   * A webhook event arrived - the live feed is working
+   */
+  recordEvent(): void {
+    this.lastEventAt = Date.now();
+  }
+
+  /**
+   * Live mode: webhooks push every change, so reads stop polling for incremental
+   * updates and only the periodic full resync remains as a safety net.
+   */
+  setLive(live: boolean): void {
+    this.live = live;
+  }
+
+  get size(): number {
+    return this.tasks.size;
+  }
+
+  upsert(task: TaskData): void {
+    if (this.isOpen(task) && this.inScope(task)) {
+      this.tasks.set(task.id, task);
+    } else {
+      this.tasks.delete(task.id);
+    }
+  }
+
+  remove(taskId: string): void {
+    this.tasks.delete(taskId);
+  }
+
+  private async runExclusive(sync: () => Promise<void>): Promise<void> {
+    // Concurrent callers share the sync already in flight
+    if (this.syncing) {
+      await this.syncing;
+      return;
+    }
+    this.syncing = (async () => {
+      try {
+        await sync();
+        while (this.fullSyncPending) {
+          this.fullSyncPending = false;
+          await this.loadFull();
+        }
+      } finally {
+        this.fullSyncPending = false;
+        this.syncing = null;
+      }
+    })();
+    await this.syncing;
+  }
+
+  private async loadFull(): Promise<void> {
+    const startedAt = Date.now();
+    const tasks = await this.loadAll();
+
+    const next = new Map<string, TaskData>();
+    for (const task of tasks) {
+      if (this.isOpen(task)) {
+        next.set(task.id, task);
+      }
+    }
+    this.tasks = next;
+    this.watermark = startedAt;
+    this.lastSyncAt = startedAt;
+    this.lastFullSyncAt = startedAt;
+
+    logger.info("task_cache_full_sync", { count: next.size, durationMs: Date.now() - startedAt });
+  }
+
+  private async loadChanges(): Promise<void> {
+    const startedAt = Date.now();
+    const since = (this.watermark ?? startedAt) - SYNC_OVERLAP_MS;
+    let changed = 0;
+
+    for (let page = 0; page < MAX_INCREMENTAL_PAGES; page++) {
+      const response = await this.clickup.get(`/team/${config.clickup.teamId}/task`, {
+        date_updated_gt: since,
+        include_closed: true,
+        subtasks: true,
+        page,
+      });
+      const tasks: TaskData[] = response.tasks || [];
+      for (const task of tasks) {
+        this.upsert(task);
+      }
+      changed += tasks.length;
+      if (tasks.length === 0 || response.last_page) break;
+    }
+
+    this.watermark = startedAt;
+    this.lastSyncAt = startedAt;
+
+    logger.info("task_cache_incremental_sync", {
+      since,
+      changed,
+      count: this.tasks.size,
+      durationMs: Date.now() - startedAt,
+    });
+  }
+
+  private isOpen(task: TaskData): boolean {
+    if (task.archived) {
+      return false;
+    }
+    return isOpenStatus(task);
+  }
+}
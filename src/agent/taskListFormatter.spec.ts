@@ -0,0 +1,100 @@
+import { TaskData } from "./queryTypes";
+import { TaskListView, formatTaskListPages } from "./taskListFormatter";
+import { AgentReply } from "./types";
+
+const task = (id: string, overrides: Partial<TaskData> = {}): TaskData => ({
+  id,
+  name: `Task ${id}`,
+  status: { status: "in progress", id: "s1", color: "#000", type: "custom", orderindex: 1 },
+  due_date: null,
+  assignees: [],
+  list: { id: "901", name: "Sales" },
+  folder: null,
+  space: { id: "1", name: "Botox" },
+  url: `https://app.clickup.com/t/${id}`,
+  date_created: "1760000000000",
+  ...overrides,
+});
+
+const view = (tasks: TaskData[], overrides: Partial<TaskListView> = {}): TaskListView => ({
+  tasks,
+  filterType: "none",
+  headerName: "Ilya Senchuk",
+  truncatedSources: [],
+  cacheAgeMs: null,
+  ...overrides,
+});
+
+const range = (count: number, overrides: Partial<TaskData> = {}) =>
+  Array.from({ length: count }, (_, index) => task(`t${index + 1}`, overrides));
+
+const buttonTexts = (page: AgentReply) => (page.buttons ?? []).flat().map((button) => button.text);
+
+describe("formatTaskListPages", () => {
+  it("puts up to 15 tasks on a page with one numbered edit button each", () => {
+    const pages = formatTaskListPages(view(range(20)));
+
+    expect(pages).toHaveLength(2);
+    expect(buttonTexts(pages[0])).toEqual(Array.from({ length: 15 }, (_, index) => `✏️ ${index + 1}`));
+    expect(buttonTexts(pages[1])).toEqual(["✏️ 16", "✏️ 17", "✏️ 18", "✏️ 19", "✏️ 20"]);
+    expect(pages[0].buttons?.[0]).toHaveLength(5);
+    expect(pages[0].buttons?.[0][0]).toEqual({ text: "✏️ 1", callbackData: "task:menu:t1" });
+  });
+
+  it("repeats the header on every page and marks a group continued from the previous one", () => {
+    const pages = formatTaskListPages(view(range(20)));
+
+    for (const page of pages) {
+      expect(page.text).toContain("Ilya Senchuk</a> (20)");
+    }
+    expect(pages[0].text).toContain("<b>Проект:</b> Botox\n");
+    expect(pages[1].text).toContain("<b>Проект:</b> Botox <i>(продовження)</i>");
+    expect(pages[1].text).toContain("<b>Таска 16:</b> Task t16");
+  });
+
+  it("starts a new page before the text outgrows one Telegram message", () => {
+    const pages = formatTaskListPages(view(range(10, { name: "Довга назва задачі ".repeat(20) })));
+
+    expect(pages.length).toBeGreaterThan(1);
+    for (const page of pages) {
+      expect(page.text.length).toBeLessThanOrEqual(4096);
+    }
+    expect(pages.flatMap(buttonTexts)).toHaveLength(10);
+  });
+
+  it("keeps subtasks under their parent, spilling only the subtasks to the next page", () => {
+    const parent = task("p1", { name: "Parent" });
+    const subtasks = range(16, { parent: "p1" });
+    const pages = formatTaskListPages(view([parent, ...subtasks]));
+
+    expect(pages).toHaveLength(2);
+    expect(pages[0].text).toContain("<b>Таска 1:</b> Parent");
+    expect(pages[0].text).toContain("↳ <b>2.</b> Task t1");
+    expect(pages[1].text).toContain("<i>Parent — підзадачі (продовження)</i>");
+    expect(pages[1].text).toContain("↳ <b>16.</b> Task t15");
+    expect(buttonTexts(pages[1])).toEqual(["✏️ 16", "✏️ 17"]);
+  });
+
+  it("adds the footer to every page", () => {
+    const pages = formatTaskListPages(
+      view(range(20), {
+        cacheAgeMs: 5 * 60_000,
+        truncatedSources: [{ kind: "list", id: "901", label: "Sales", failed: true }],
+      })
+    );
+
+    for (const page of pages) {
+      expect(page.text).toContain("не вдалося завантажити задачі для: Sales");
+      expect(page.text).toContain("Дані оновлено 5 хв тому");
+    }
+  });
+
+  it("says when nothing was found", () => {
+    const [page] = formatTaskListPages(view([], { cacheAgeMs: 30_000 }));
+
+    expect(page.text).toContain("✅ Задач не знайдено!");
+    // Fresh data needs no age note
+    expect(page.text).not.toContain("Дані оновлено");
+    expect(page.buttons).toEqual([]);
+  });
+});
@@ -0,0 +1,436 @@
+import { DateTime } from "luxon";
+import { config } from "../config/config";
+import { assigneeName } from "../config/teamMembers";
+import { taskMenuCallback } from "../actions/taskActions";
+import { escapeAttr, escapeHtml } from "../utils/html";
+import { findCustomField, getCustomFieldText, getTagNames } from "./customFields";
+import { PRIORITY_LABELS, PRIORITY_LEVELS, getPriorityLevel } from "./priority";
+import { DEFAULT_DUE_SOON_DAYS, formatRiskReason, getRiskReasons } from "./deadlineRisk";
+import { CustomFieldFilter, DateRange, FilterMode, FilterType, GroupBy, PriorityLevel, TaskData, TaskHierarchy, TruncatedSource } from "./queryTypes";
+import { AgentReply, ReplyButton } from "./types";
+
+// A page stays under Telegram's 4096 characters with room for the footer and buttons
+const PAGE_TEXT_LIMIT = 3500;
+const PAGE_TASK_LIMIT = 15;
+// Beyond this the list is cut - paging through hundreds of cards helps nobody
+const MAX_LIST_TASKS = 300;
+const EDIT_BUTTONS_PER_ROW = 5;
+const MINUTE_MS = 60_000;
+// Snapshot age from which the footer says how old the data is
+const STALE_NOTICE_MS = MINUTE_MS;
+
+const FILTER_TITLES: Record<FilterType, string> = {
+  stuck: "⏳ Зависли без руху",
+  overdue: "🔴 Прострочені",
+  due_today: "📅 На сьогодні",
+  in_progress: "🟢 В роботі",
+  blocked: "⛓ Заблоковані",
+  completed: "✅ Виконані",
+  due_soon: "⏰ Скоро дедлайн",
+  at_risk: "⚠️ Під загрозою зриву",
+  none: "📋 Всі задачі",
+};
+
+export type TaskListView = {
+  tasks: TaskData[];
+  filterType: FilterType;
+  filters?: FilterType[];  // Several filters combined with filterMode
+  filterMode?: FilterMode;
+  withinDays?: number;    // Horizon of 'due_soon' / 'at_risk'
+  headerName: string;
+  priority?: PriorityLevel[];
+  tag?: string;
+  customField?: CustomFieldFilter;
+  groupBy?: GroupBy;      // Default grouping is by project
+  groupByField?: string;  // Custom field name, overrides groupBy
+  dateRange?: DateRange;  // Closing period of a 'completed' list
+  dueRange?: DateRange;
+  createdRange?: DateRange;
+  updatedRange?: DateRange;
+  search?: string;        // Search query - replaces the filter title
+  truncatedSources: TruncatedSource[];
+  cacheAgeMs: number | null;
+  hierarchy?: TaskHierarchy;
+};
+
+// Subtasks deeper than this are shown flat under the last level
+const MAX_NESTING = 3;
+
+const filtersOf = (view: Pick<TaskListView, "filterType" | "filters">): FilterType[] =>
+  view.filters && view.filters.length > 1 ? view.filters : [view.filterType];
+
+export const buildTitle = (view: TaskListView): string => {
+  const filters = filtersOf(view);
+  const qualifiers: string[] = [];
+  if (filters.includes("due_soon") || filters.includes("at_risk")) {
+    qualifiers.push(`найближчі ${view.withinDays ?? DEFAULT_DUE_SOON_DAYS} дн.`);
+  }
+  if (view.dateRange) {
+    qualifiers.push(view.dateRange.label);
+  }
+  if (view.dueRange) {
+    qualifiers.push(`дедлайн: ${view.dueRange.label}`);
+  }
+  if (view.createdRange) {
+    qualifiers.push(`створено: ${view.createdRange.label}`);
+  }
+  if (view.updatedRange) {
+    qualifiers.push(`оновлено: ${view.updatedRange.label}`);
+  }
+  if (view.priority && view.priority.length > 0) {
+    qualifiers.push(view.priority.map((level) => PRIORITY_LABELS[level]).join(", "));
+  }
+  if (view.tag) {
+    qualifiers.push(`#${view.tag.replace(/^#/, "")}`);
+  }
+  if (view.customField) {
+    const operator = view.customField.match === "contains" ? "містить" : "=";
+    qualifiers.push(`${view.customField.name} ${operator} ${view.customField.value}`);
+  }
+  const title = view.search
+    ? `🔍 Пошук «${escapeHtml(view.search)}»`
+    : filters.map((filter) => FILTER_TITLES[filter] || "📋 Задачі").join(view.filterMode === "and" ? " і " : " або ");
+  return qualifiers.length > 0 ? `${title} (${escapeHtml(qualifiers.join("; "))})` : title;
+};
+
+export const projectOf = (task: TaskData): string =>
+  task.space?.name || task.list?.name || task.folder?.name || "Без проєкту";
+
+/**
+ * Notes on truncated sources and stale snapshot data, shared by lists and summaries
+ */
+export const formatFooter = (view: Pick<TaskListView, "truncatedSources" | "cacheAgeMs">): string => {
+  let text = "";
+  const labelsOf = (sources: TruncatedSource[]) => sources.map((source) => escapeHtml(source.label)).join(", ");
+  const cut = view.truncatedSources.filter((source) => !source.failed);
+  const failed = view.truncatedSources.filter((source) => source.failed);
+  if (cut.length > 0) {
+    text += `\n\n⚠️ <i>Список неповний: ClickUp повернув більше сторінок, ніж дозволяє ліміт, для: ${labelsOf(cut)}</i>`;
+  }
+  if (failed.length > 0) {
+    text += `\n\n⚠️ <i>Список неповний: не вдалося завантажити задачі для: ${labelsOf(failed)}</i>`;
+  }
+  if (view.cacheAgeMs !== null && view.cacheAgeMs >= STALE_NOTICE_MS) {
+    text += `\n\n<i>🕒 Дані оновлено ${Math.floor(view.cacheAgeMs / MINUTE_MS)} хв тому. /refresh — оновити</i>`;
+  }
+  return text;
+};
+
+type Grouping = {
+  label: string;                             // Shown before each group name
+  keysOf: (task: TaskData) => GroupKey[];    // Empty - the task goes to the `missing` group
+  missing: string;
+  ordered: boolean;                          // Groups follow their rank, not first appearance
+};
+
+type GroupKey = { name: string; rank: number };
+
+const dueWeekKey = (task: TaskData): GroupKey[] => {
+  if (!task.due_date) {
+    return [];
+  }
+  const week = DateTime.fromMillis(Number(task.due_date)).setZone(config.timezone).startOf("week");
+  return [{ name: `${week.toFormat("dd.MM")}–${week.endOf("week").toFormat("dd.MM")}`, rank: week.toMillis() }];
+};
+
+const GROUPINGS: Record<GroupBy, Grouping> = {
+  project: { label: "Проект", keysOf: (task) => [{ name: projectOf(task), rank: 0 }], missing: "Без проєкту", ordered: false },
+  person: {
+    label: "Виконавець",
+    // A task with two assignees is shown under each of them
+    keysOf: (task) =>
+      (task.assignees || []).map((assignee) => ({ name: assigneeName(assignee), rank: 0 })),
+    missing: "без виконавця",
+    ordered: false,
+  },
+  status: { label: "Статус", keysOf: (task) => [{ name: taskStatus(task), rank: 0 }], missing: "—", ordered: false },
+  priority: {
+    label: "Пріоритет",
+    keysOf: (task) => {
+      const level = getPriorityLevel(task);
+      return level ? [{ name: PRIORITY_LABELS[level], rank: PRIORITY_LEVELS.indexOf(level) }] : [];
+    },
+    missing: "без пріоритету",
+    ordered: true,
+  },
+  due_week: { label: "Тиждень", keysOf: dueWeekKey, missing: "без дедлайну", ordered: true },
+};
+
+const customFieldGrouping = (fieldName: string): Grouping => ({
+  label: escapeHtml(fieldName),
+  keysOf: (task) => {
+    const value = getCustomFieldText(findCustomField(task, fieldName));
+    return value === null ? [] : [{ name: value, rank: 0 }];
+  },
+  missing: "не вказано",
+  ordered: false,
+});
+
+/**
+ * Group the shown tasks by project, person, status, priority, due week or a custom
+ * field value, keeping the incoming (sorted) order inside each group. Tasks without
+ * the value go last.
+ */
+const groupTasks = (tasks: TaskData[], grouping: Grouping): Array<[string, TaskData[]]> => {
+  const groups = new Map<string, { rank: number; tasks: TaskData[] }>();
+  const missing: TaskData[] = [];
+
+  for (const task of tasks) {
+    const keys = grouping.keysOf(task);
+    if (keys.length === 0) {
+      missing.push(task);
+      continue;
+    }
+    for (const { name, rank } of keys) {
+      if (!groups.has(name)) {
+        groups.set(name, { rank, tasks: [] });
+      }
+      groups.get(name)!.tasks.push(task);
+    }
+  }
+
+  const entries = Array.from(groups.entries());
+  if (grouping.ordered) {
+    entries.sort((a, b) => a[1].rank - b[1].rank);
+  }
+  const result: Array<[string, TaskData[]]> = entries.map(([name, group]) => [name, group.tasks]);
+  if (missing.length > 0) {
+    result.push([grouping.missing, missing]);
+  }
+  return result;
+};
+
+/**
+ * Checklist progress across all of the task's checklists, e.g. "3/5 ✔"
+ */
+const formatChecklistProgress = (task: TaskData): string | null => {
+  let resolved = 0;
+  let total = 0;
+  for (const checklist of task.checklists || []) {
+    if (checklist.items) {
+      resolved += checklist.items.filter((item) => item.resolved).length;
+      total += checklist.items.length;
+    } else {
+      resolved += checklist.resolved ?? 0;
+      total += (checklist.resolved ?? 0) + (checklist.unresolved ?? 0);
+    }
+  }
+  return total > 0 ? `${resolved}/${total} ✔` : null;
+};
+
+const formatDate = (value: string | null | undefined): string =>
+  value
+    ? new Date(Number(value)).toLocaleDateString("uk-UA", { day: "2-digit", month: "2-digit", timeZone: config.timezone })
+    : "—";
+
+const formatDue = (task: TaskData): string => formatDate(task.due_date);
+
+const taskStatus = (task: TaskData): string =>
+  (typeof task.status === "string" ? task.status : task.status?.status) || "—";
+
+const taskLinkUrl = (task: TaskData): string => task.url || (task.id ? `https://app.clickup.com/t/${task.id}` : "");
+
+/**
+ * Compact one-line card for a subtask nested under its parent
+ */
+const formatSubtask = (task: TaskData, number: number, depth: number): string => {
+  const indent = "   ".repeat(depth - 1);
+  const parts = [escapeHtml(taskStatus(task)), `до ${escapeHtml(formatDue(task))}`];
+  const checklist = formatChecklistProgress(task);
+  if (checklist) {
+    parts.push(checklist);
+  }
+  const url = taskLinkUrl(task);
+  const link = url ? ` • <a href="${escapeAttr(url)}">🔗</a>` : "";
+  return `${indent}↳ <b>${number}.</b> ${escapeHtml(task.name)} — ${parts.join(" • ")}${link}\n`;
+};
+
+const formatTask = (task: TaskData, number: number, hierarchy?: TaskHierarchy, showRisk = false): string => {
+  const dueDate = formatDue(task);
+  const taskUrl = taskLinkUrl(task);
+
+  let text = `<b>Таска ${number}:</b> ${escapeHtml(task.name)}\n`;
+  // Subtask shown without its parent (parent filtered out or in another group)
+  const parentName = task.parent ? hierarchy?.parentNames.get(task.parent) : undefined;
+  if (parentName) {
+    text += `↳ <i>підзадача до «${escapeHtml(parentName)}»</i>\n`;
+  }
+  text += `<b>Статус:</b> ${escapeHtml(taskStatus(task))}\n`;
+  const priorityLevel = getPriorityLevel(task);
+  if (priorityLevel) {
+    text += `<b>Пріоритет:</b> ${PRIORITY_LABELS[priorityLevel]}\n`;
+  }
+  const tags = getTagNames(task);
+  if (tags.length > 0) {
+    text += `<b>Теги:</b> ${escapeHtml(tags.map((tag) => `#${tag}`).join(" "))}\n`;
+  }
+  text += `<b>Дедлайн:</b> ${escapeHtml(dueDate)}\n`;
+  const doneAt = task.date_done || task.date_closed;
+  if (doneAt) {
+    text += `<b>Закрито:</b> ${escapeHtml(formatDate(doneAt))}\n`;
+  }
+  const checklist = formatChecklistProgress(task);
+  if (checklist) {
+    text += `<b>Чекліст:</b> ${checklist}\n`;
+  }
+  // A parent is at risk through its subtasks even without a due date of its own
+  const overdueSubtasks = hierarchy?.overdueSubtasks.get(task.id) ?? 0;
+  if (overdueSubtasks > 0) {
+    text += `⚠️ <b>Під загрозою:</b> прострочено підзадач — ${overdueSubtasks}\n`;
+  }
+  const riskReasons = showRisk ? getRiskReasons(task) : [];
+  if (riskReasons.length > 0) {
+    text += `⚠️ <b>Ризик:</b> ${riskReasons.map(formatRiskReason).join(", ")}\n`;
+  }
+  const waitingOn = hierarchy?.waitingOnNames.get(task.id);
+  if (waitingOn) {
+    text += `⏸ <b>Чекає на:</b> ${escapeHtml(waitingOn.join("; "))}\n`;
+  }
+  const blocksCount = hierarchy?.blocksCount.get(task.id) ?? 0;
+  if (blocksCount > 0) {
+    text += `⛓ <b>Блокує задач:</b> ${blocksCount}\n`;
+  }
+  text += taskUrl ? `<a href="${escapeAttr(taskUrl)}">🔗 Відкрити</a>\n\n` : `🔗 Відкрити\n\n`;
+  return text;
+};
+
+// One card together with the subtasks nested under it, one part per shown task.
+// Only a block bigger than a page is split, between its subtasks.
+type TaskBlock = {
+  group: string;
+  continuation: string;  // Heads the subtasks continued on the next page
+  parts: Array<{ text: string; button: ReplyButton }>;
+};
+
+/**
+ * Cards of the shown tasks in display order, numbered across the whole list
+ */
+const buildBlocks = (view: TaskListView): TaskBlock[] => {
+  const blocks: TaskBlock[] = [];
+  const showRisk = filtersOf(view).includes("at_risk");
+  const grouping = view.groupByField ? customFieldGrouping(view.groupByField) : GROUPINGS[view.groupBy ?? "project"];
+  let number = 0;
+
+  for (const [groupName, groupedTasks] of groupTasks(view.tasks.slice(0, MAX_LIST_TASKS), grouping)) {
+    const group = `<b>${grouping.label}:</b> ${escapeHtml(groupName)}`;
+
+    // Subtasks whose parent is in the same group are rendered under it
+    const ids = new Set(groupedTasks.map((task) => task.id));
+    const children = new Map<string, TaskData[]>();
+    for (const task of groupedTasks) {
+      if (task.parent && ids.has(task.parent)) {
+        children.set(task.parent, [...(children.get(task.parent) ?? []), task]);
+      }
+    }
+
+    for (const task of groupedTasks) {
+      if (task.parent && ids.has(task.parent)) {
+        continue;
+      }
+      // One ✏️ button per shown task, numbered like the tasks in the text
+      const block: TaskBlock = {
+        group,
+        continuation: `<i>${escapeHtml(task.name)} — підзадачі (продовження)</i>\n`,
+        parts: [],
+      };
+      const addPart = (item: TaskData, text: string) => {
+        block.parts.push({ text, button: { text: `✏️ ${number}`, callbackData: taskMenuCallback(item.id) } });
+      };
+      const renderChildren = (parent: TaskData, depth: number) => {
+        for (const child of children.get(parent.id) ?? []) {
+          number += 1;
+          addPart(child, formatSubtask(child, number, Math.min(depth, MAX_NESTING)));
+          renderChildren(child, depth + 1);
+        }
+      };
+
+      number += 1;
+      const card = formatTask(task, number, view.hierarchy, showRisk);
+      if (children.has(task.id)) {
+        // Drop the card's blank separator so subtasks sit right under the parent
+        addPart(task, card.replace(/\n\n$/, "\n"));
+        renderChildren(task, 1);
+        block.parts[block.parts.length - 1].text += "\n";
+      } else {
+        addPart(task, card);
+      }
+      blocks.push(block);
+    }
+  }
+  return blocks;
+};
+
+/**
+ * Render a load_and_filter_tasks result as pages that each fit one Telegram message:
+ * grouped task cards, a ✏️ edit button per shown task, and footers for truncated
+ * sources and stale data on every page. Page navigation is added by the caller.
+ */
+export const formatTaskListPages = (view: TaskListView): AgentReply[] => {
+  const { tasks } = view;
+  const title = buildTitle(view);
+  const footer = formatFooter(view);
+
+  if (tasks.length === 0) {
+    const empty = view.search
+      ? "Нічого не знайдено. Спробуйте інші слова."
+      : view.filterType === "completed"
+        ? "Закритих задач за цей період немає."
+        : "✅ Задач не знайдено!";
+    return [{ text: `${title}\n\n${empty}${footer}`, buttons: [] }];
+  }
+
+  const peopleUrl = `https://app.clickup.com/${config.clickup.teamId}/teams-pulse/people`;
+  const headerLabel = `<a href="${escapeAttr(peopleUrl)}">${escapeHtml(view.headerName)}</a>`;
+  const header = `<b>${title}</b> — ${headerLabel} (${tasks.length})\n\n`;
+
+  const pages: AgentReply[] = [];
+  let text = header;
+  let buttons: ReplyButton[] = [];
+  let group: string | null = null;
+  const closePage = () => {
+    pages.push({ text: text.trimEnd() + footer, buttons: toButtonRows(buttons) });
+    text = header;
+    buttons = [];
+    group = null;
+  };
+  const fits = (extra: string, taskCount: number) =>
+    text.length + extra.length <= PAGE_TEXT_LIMIT && buttons.length + taskCount <= PAGE_TASK_LIMIT;
+
+  for (const block of buildBlocks(view)) {
+    const groupLine = block.group !== group ? `${block.group}\n` : "";
+    const blockText = block.parts.map((part) => part.text).join("");
+    if (buttons.length > 0 && !fits(groupLine + blockText, block.parts.length)) {
+      const continued = block.group === group;
+      closePage();
+      text += continued ? `${block.group} <i>(продовження)</i>\n` : `${block.group}\n`;
+    } else {
+      text += groupLine;
+    }
+    group = block.group;
+    block.parts.forEach((part, index) => {
+      // The parent card always opens the block; its subtasks may spill onto the next page
+      if (index > 0 && !fits(part.text, 1)) {
+        closePage();
+        text += `${block.group} <i>(продовження)</i>\n${block.continuation}`;
+        group = block.group;
+      }
+      text += part.text;
+      buttons.push(part.button);
+    });
+  }
+
+  const remaining = tasks.length - MAX_LIST_TASKS;
+  if (remaining > 0) {
+    text += `<i>+ ще ${remaining} — уточніть запит, щоб побачити їх</i>`;
+  }
+  closePage();
+  return pages;
+};
+
+const toButtonRows = (buttons: ReplyButton[]): ReplyButton[][] => {
+  const rows: ReplyButton[][] = [];
+  for (let i = 0; i < buttons.length; i += EDIT_BUTTONS_PER_ROW) {
+    rows.push(buttons.slice(i, i + EDIT_BUTTONS_PER_ROW));
+  }
+  return rows;
+};
@@ -0,0 +1,96 @@
+import { getPriorityWeight } from "./priority";
+import { TaskData } from "./queryTypes";
+
+// A hit in the name says much more about the task than one in a long description
+const NAME_WEIGHT = 3;
+const DESCRIPTION_WEIGHT = 1;
+const PHRASE_BONUS = 5;
+const MIN_STEM_LENGTH = 3;
+
+// Filler the model (or a voice transcript) tends to leave in the query
+const STOP_WORDS = new Set([
+  "задача", "задачі", "задачу", "таска", "таски", "таску", "задачи", "про", "по", "для", "на", "в", "у", "з", "із",
+  "та", "і", "й", "и", "а", "або", "чи", "що", "де", "это", "the", "a", "an", "of", "for", "to", "in", "on", "and", "task", "tasks",
+]);
+
+// Ukrainian/Russian inflection endings, longest first so "ами" is tried before "и"
+const CYRILLIC_SUFFIXES = [
+  "ться", "ання", "ення", "ями", "ами", "ові", "еві", "ого", "ому", "ими", "ыми", "ої", "ій",
+  "ий", "ый", "ая", "яя", "ое", "ее", "ые", "ие", "ах", "ях", "ом", "ем", "ою", "ею", "ів", "ов", "ев", "ти", "ть", "ся",
+  "а", "я", "о", "е", "и", "і", "ї", "у", "ю", "ы", "ь", "й",
+];
+const LATIN_SUFFIXES = ["ing", "ies", "ed", "es", "ly", "s"];
+
+/**
+ * Lowercase words of a text, with ё/ґ folded so spelling variants meet
+ */
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/ё/g, "е")
+    .replace(/ґ/g, "г")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+/**
+ * Cheap suffix-stripping stem: "лендингу", "лендинги" and "лендинг" all become "лендинг".
+ * Not linguistically exact - it only has to make inflected forms meet.
+ */
+const stem = (word: string): string => {
+  const suffixes = /[а-яіїє]/.test(word) ? CYRILLIC_SUFFIXES : LATIN_SUFFIXES;
+  for (const suffix of suffixes) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+};
+
+const termsOf = (query: string): string[] =>
+  Array.from(new Set(tokenize(query).filter((word) => !STOP_WORDS.has(word)).map(stem)));
+
+// A term matches a word with the same stem or one it starts ("crm" matches "crm-інтеграція")
+const countHits = (words: string[], term: string): number =>
+  words.filter((word) => word.startsWith(term) || stem(word) === term).length;
+
+export type SearchMatch = { task: TaskData; score: number; matchedTerms: number };
+
+/**
+ * Ranked keyword search over task names and descriptions.
+ * With several terms, tasks matching fewer than half of them are dropped;
+ * ties go to the higher priority.
+ */
+export const searchTasks = (tasks: TaskData[], query: string): SearchMatch[] => {
+  const terms = termsOf(query);
+  if (terms.length === 0) {
+    return [];
+  }
+  const phrase = tokenize(query).join(" ");
+  const minTerms = Math.ceil(terms.length / 2);
+
+  const matches: SearchMatch[] = [];
+  for (const task of tasks) {
+    const nameWords = tokenize(task.name);
+    const descriptionWords = tokenize(task.text_content || task.description || "");
+
+    let score = 0;
+    let matchedTerms = 0;
+    for (const term of terms) {
+      const hits = countHits(nameWords, term) * NAME_WEIGHT + countHits(descriptionWords, term) * DESCRIPTION_WEIGHT;
+      if (hits > 0) {
+        matchedTerms++;
+        score += hits;
+      }
+    }
+    if (matchedTerms < minTerms) continue;
+    if (phrase && nameWords.join(" ").includes(phrase)) {
+      score += PHRASE_BONUS;
+    }
+    matches.push({ task, score, matchedTerms });
+  }
+
+  return matches.sort(
+    (a, b) =>
+      b.matchedTerms - a.matchedTerms || b.score - a.score || getPriorityWeight(b.task) - getPriorityWeight(a.task)
+  );
+};
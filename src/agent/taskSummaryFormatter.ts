@@ -0,0 +1,97 @@
+import { assigneeName } from "../config/teamMembers";
+import { escapeAttr, escapeHtml } from "../utils/html";
+import { TaskData, TaskStats } from "./queryTypes";
+import { TaskListView, buildTitle, formatFooter, projectOf } from "./taskListFormatter";
+import { AgentReply } from "./types";
+
+// Rows per breakdown; the rest is folded into "ще N"
+const BREAKDOWN_LIMIT = 5;
+
+/**
+ * "в роботі 5 · to do 3 · ще 2", largest first
+ */
+const formatBreakdown = (counts: Map<string, number>): string => {
+  const sorted = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  const parts = sorted.slice(0, BREAKDOWN_LIMIT).map(([label, count]) => `${escapeHtml(label)} ${count}`);
+  const rest = sorted.slice(BREAKDOWN_LIMIT).reduce((sum, [, count]) => sum + count, 0);
+  if (rest > 0) {
+    parts.push(`ще ${rest}`);
+  }
+  return parts.join(" · ");
+};
+
+const countBy = (tasks: TaskData[], keysOf: (task: TaskData) => string[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const task of tasks) {
+    for (const key of keysOf(task)) {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+  return counts;
+};
+
+const statusOf = (task: TaskData): string =>
+  (typeof task.status === "string" ? task.status : task.status?.status) || "—";
+
+// A task with two assignees counts for both of them
+const peopleOf = (task: TaskData): string[] => {
+  const assignees = task.assignees || [];
+  return assignees.length > 0
+    ? assignees.map((assignee) => assigneeName(assignee))
+    : ["без виконавця"];
+};
+
+const summaryHeader = (view: TaskListView, value: string): string =>
+  `<b>${buildTitle(view)}</b> — ${escapeHtml(view.headerName)}: <b>${value}</b>`;
+
+/**
+ * The 'count' operation: the total plus compact breakdowns instead of task cards
+ */
+export const formatTaskCount = (view: TaskListView): AgentReply => {
+  const { tasks } = view;
+  let text = summaryHeader(view, String(tasks.length));
+
+  if (tasks.length > 0) {
+    const breakdowns: Array<[string, Map<string, number>]> = [
+      ["За статусом", countBy(tasks, (task) => [statusOf(task)])],
+      ["За людьми", countBy(tasks, peopleOf)],
+      ["За проєктами", countBy(tasks, (task) => [projectOf(task)])],
+    ];
+    text += "\n";
+    for (const [label, counts] of breakdowns) {
+      // One value is already said by the scope ("у Аліни", "в Botox")
+      if (counts.size > 1) {
+        text += `\n<b>${label}:</b> ${formatBreakdown(counts)}`;
+      }
+    }
+  }
+
+  return { text: text.trimEnd() + formatFooter(view) };
+};
+
+const formatPercent = (part: number, total: number): string => `${Math.round((part / total) * 100)}%`;
+
+/**
+ * The 'stats' operation: totals, overdue ratio and depth, stuck tasks and the oldest of them
+ */
+export const formatTaskStats = (view: TaskListView, stats: TaskStats): AgentReply => {
+  const lines = [summaryHeader(view, String(stats.total))];
+
+  if (stats.total > 0) {
+    lines.push("");
+    const overdueDepth = stats.avgOverdueDays !== null ? ` · в середньому ${stats.avgOverdueDays.toFixed(1)} дн.` : "";
+    lines.push(`🔴 Прострочено: ${stats.overdue} (${formatPercent(stats.overdue, stats.total)})${overdueDepth}`);
+    lines.push(`📅 На сьогодні: ${stats.dueToday}`);
+    lines.push(`⏳ Зависли: ${stats.stuck}`);
+    if (stats.oldestStuck) {
+      const { task, days } = stats.oldestStuck;
+      lines.push(`   найдовше: <a href="${escapeAttr(task.url)}">${escapeHtml(task.name)}</a> — ${days} дн.`);
+    }
+    if (stats.blocked > 0) {
+      lines.push(`⛓ Заблоковано: ${stats.blocked}`);
+    }
+    lines.push(`👤 Без виконавця: ${stats.unassigned} (${formatPercent(stats.unassigned, stats.total)})`);
+  }
+
+  return { text: lines.join("\n") + formatFooter(view) };
+};
@@ -0,0 +1,99 @@
+import { findDepartmentByListId } from "../config/departments";
+import { members } from "../config/teamMembers";
+import { escapeHtml } from "../utils/html";
+import { logger } from "../utils/logger";
+import { DateRange, TaskData } from "./queryTypes";
+
+type Counts = { created: number; closed: number };
+
+const bump = (map: Map<string, Counts>, key: string, field: keyof Counts) => {
+  if (!map.has(key)) {
+    map.set(key, { created: 0, closed: 0 });
+  }
+  map.get(key)![field]++;
+};
+
+// Closed first - the report is about output; created breaks ties
+const byOutput = (a: [string, Counts], b: [string, Counts]) =>
+  b[1].closed - a[1].closed || b[1].created - a[1].created;
+
+const formatRow = (label: string, counts: Counts): string => {
+  const balance = counts.closed - counts.created;
+  const sign = balance > 0 ? `+${balance}` : String(balance);
+  return `• <b>${escapeHtml(label)}</b> — ✅ ${counts.closed} / 🆕 ${counts.created} (${sign})`;
+};
+
+/**
+ * Created vs. closed tasks per person and per department for a period.
+ * A task counts for each of its assignees; members excluded from counts are skipped.
+ */
+export function generateThroughputReport(
+  data: { created: TaskData[]; closed: TaskData[]; truncated: boolean },
+  range: DateRange
+): string {
+  const countedMembers = new Map(
+    members.filter((member) => !member.exclude_from_counts).map((member) => [String(member.id), member.name])
+  );
+  const byPerson = new Map<string, Counts>();
+  const byDepartment = new Map<string, Counts>();
+
+  const tally = (tasks: TaskData[], field: keyof Counts) => {
+    for (const task of tasks) {
+      for (const assignee of task.assignees || []) {
+        const name = countedMembers.get(String(assignee.id));
+        if (name) {
+          bump(byPerson, name, field);
+        }
+      }
+      const department = findDepartmentByListId(task.list?.id);
+      if (department) {
+        bump(byDepartment, department, field);
+      }
+    }
+  };
+  tally(data.created, "created");
+  tally(data.closed, "closed");
+
+  logger.info("throughput_report_done", {
+    from: range.from,
+    to: range.to,
+    created: data.created.length,
+    closed: data.closed.length,
+    people: byPerson.size,
+    departments: byDepartment.size,
+  });
+
+  const lines = [
+    `📈 <b>Пропускна здатність: ${escapeHtml(range.label)}</b>`,
+    `Закрито ${data.closed.length}, створено ${data.created.length}\n`,
+  ];
+
+  if (data.closed.length === 0 && data.created.length === 0) {
+    lines.push("За цей період задач не створювали і не закривали.");
+    return lines.join("\n");
+  }
+
+  const people = Array.from(byPerson.entries()).sort(byOutput);
+  if (people.length > 0) {
+    lines.push("👤 <b>По людях:</b>");
+    people.forEach(([name, counts], index) => {
+      const row = formatRow(name, counts);
+      lines.push(index === 0 && counts.closed > 0 ? `${row} 🏆` : row);
+    });
+    lines.push("");
+  }
+
+  const departmentRows = Array.from(byDepartment.entries()).sort(byOutput);
+  if (departmentRows.length > 0) {
+    lines.push("📂 <b>По відділах:</b>");
+    departmentRows.forEach(([department, counts]) => lines.push(formatRow(department, counts)));
+    lines.push("");
+  }
+
+  lines.push("<i>✅ закрито / 🆕 створено (різниця)</i>");
+  if (data.truncated) {
+    lines.push("⚠️ <i>ClickUp повернув більше сторінок, ніж дозволяє ліміт — цифри можуть бути неповними.</i>");
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,81 @@
+import { ClickUpClient } from "../clickup/client";
+import { config } from "../config/config";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { logger } from "../utils/logger";
+
+// ClickUp accepts at most 100 task ids per bulk time-in-status request
+const BULK_LIMIT = 100;
+
+export type StatusTime = {
+  status: string;
+  type?: string;
+  minutes: number;
+  since?: number;  // Epoch ms the task entered the status (current status only)
+};
+
+export type TaskStatusTimes = {
+  current: StatusTime | null;
+  history: StatusTime[];  // Every status the task has been in, current one included
+};
+
+type RawStatusTime = {
+  status: string;
+  type?: string;
+  total_time?: { by_minute?: number; since?: string };
+};
+
+type RawTaskTimes = {
+  current_status?: RawStatusTime | null;
+  status_history?: RawStatusTime[];
+};
+
+const toStatusTime = (raw: RawStatusTime): StatusTime => ({
+  status: raw.status,
+  type: raw.type,
+  minutes: Number(raw.total_time?.by_minute) || 0,
+  since: raw.total_time?.since ? Number(raw.total_time.since) : undefined,
+});
+
+export type TimeInStatusResult = {
+  times: Map<string, TaskStatusTimes>;
+  failedChunks: number;  // Bulk requests that failed - their tasks have no times
+};
+
+/**
+ * Time-in-status for many tasks via the bulk endpoint (needs the Time in Status ClickApp).
+ * A failed chunk is logged and skipped, so the report covers what ClickUp returned
+ * and says that the data is incomplete.
+ */
+export const loadTimeInStatus = async (
+  clickup: ClickUpClient,
+  taskIds: string[]
+): Promise<TimeInStatusResult> => {
+  const chunks: string[][] = [];
+  for (let i = 0; i < taskIds.length; i += BULK_LIMIT) {
+    chunks.push(taskIds.slice(i, i + BULK_LIMIT));
+  }
+
+  const result = new Map<string, TaskStatusTimes>();
+  let failedChunks = 0;
+
+  await mapWithConcurrency(chunks, config.clickup.loadConcurrency, async (ids) => {
+    // The endpoint wants `task_ids` repeated without brackets, which ClickUpQuery arrays don't produce
+    const query = ids.map((id) => `task_ids=${encodeURIComponent(id)}`).join("&");
+    try {
+      const response = await clickup.get<Record<string, RawTaskTimes>>(`/task/bulk_time_in_status/task_ids?${query}`);
+      for (const [taskId, times] of Object.entries(response)) {
+        const current = times.current_status ? toStatusTime(times.current_status) : null;
+        const history = (times.status_history ?? []).map(toStatusTime);
+        result.set(taskId, { current, history });
+      }
+    } catch (error) {
+      failedChunks++;
+      logger.error("time_in_status_chunk_failed", { tasks: ids.length, error: String(error) });
+      // Nothing to report at all - surface the ClickUp error (e.g. ClickApp disabled)
+      if (chunks.length === 1) throw error;
+    }
+  });
+
+  logger.info("time_in_status_loaded", { requested: taskIds.length, loaded: result.size, failedChunks });
+  return { times: result, failedChunks };
+};
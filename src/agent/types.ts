@@ -0,0 +1,11 @@
+/**
+ * Agent reply: HTML text plus optional inline keyboard rows
+ */
+export type ReplyButton =
+  | { text: string; callbackData: string }
+  | { text: string; url: string };
+
+export type AgentReply = {
+  text: string;
+  buttons?: ReplyButton[][];
+};
@@ -1,7 +1,23 @@
-import { Context, Telegraf } from "telegraf";
-import { Agent } from "../agent/agent";
+import { Context, Markup, Telegraf } from "telegraf";
+import { Agent, PAGE_CALLBACK_PATTERN } from "../agent/agent";
+import { AgentReply } from "../agent/types";
+import { ReportQuery, ReportType } from "../reports/types";
+import { normalizeDepartmentKey } from "../config/departments";
 import { VoiceTranscriber } from "../utils/voiceTranscriber";
 import { logger } from "../utils/logger";
+import { isClickUpError } from "../clickup/errors";
+import {
+  MENU_CALLBACK_PATTERN,
+  MenuCallback,
+  departmentMenu,
+  departmentPicker,
+  mainMenu,
+  parseMenuCallback,
+  peoplePicker,
+  personMenu,
+  reportButtons,
+  riskButtons,
+} from "./menu";
 
 type BotConfig = {
   token: string;
@@ -29,6 +45,101 @@ const splitMessage = (text: string, maxLength: number = 4000): string[] => {
   return chunks;
 };
 
+const toInlineKeyboard = (reply: AgentReply) => {
+  if (!reply.buttons || reply.buttons.length === 0) {
+    return {};
+  }
+  return Markup.inlineKeyboard(
+    reply.buttons.map((row) =>
+      row.map((button) =>
+        "url" in button
+          ? Markup.button.url(button.text, button.url)
+          : Markup.button.callback(button.text, button.callbackData)
+      )
+    )
+  );
+};
+
+// Send a reply split into Telegram-sized parts; buttons go on the last part
+const sendReply = async (ctx: Context, reply: AgentReply) => {
+  const chunks = splitMessage(reply.text);
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    const prefix = chunks.length > 1 && i > 0 ? `<i>(частина ${i + 1}/${chunks.length})</i>\n\n` : '';
+    const keyboard = i === chunks.length - 1 ? toInlineKeyboard(reply) : {};
+    await ctx.reply(prefix + chunk, { parse_mode: "HTML", ...keyboard });
+  }
+};
+
+/**
+ * Push a report to every admin outside of a conversation (scheduled digests).
+ * One failed chat doesn't stop the others.
+ */
+export const sendToAdmins = async (bot: Telegraf, adminIds: number[], text: string) => {
+  for (const chatId of adminIds) {
+    try {
+      for (const chunk of splitMessage(text)) {
+        await bot.telegram.sendMessage(chatId, chunk, { parse_mode: "HTML" });
+      }
+    } catch (error) {
+      logger.error("telegram_broadcast_failed", {
+        chatId,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+};
+
+/**
+ * Report arguments after the command: a number is the day count, the rest the department
+ * ("/stale 14 botox", "/active всі клієнти")
+ */
+const parseReportArgs = (type: ReportType, text: string): ReportQuery => {
+  const words = text.split(/\s+/).slice(1).filter((word) => word.length > 0);
+  const days = words.find((word) => /^\d+$/.test(word));
+  const department = words.filter((word) => word !== days).join(" ");
+  return { type, department: department || undefined, days: days ? Number(days) : undefined };
+};
+
+// Telegram rejects edits past 4096 characters; longer replies go out as new messages
+const MAX_EDIT_LENGTH = 4000;
+
+/**
+ * Replace the message behind the pressed button. "Not modified" (🔄 on unchanged data) is not an error.
+ */
+const editReply = async (ctx: Context, reply: AgentReply) => {
+  if (reply.text.length > MAX_EDIT_LENGTH) {
+    await sendReply(ctx, reply);
+    return;
+  }
+  try {
+    await ctx.editMessageText(reply.text, { parse_mode: "HTML", ...toInlineKeyboard(reply) });
+  } catch (error) {
+    if (!(error instanceof Error && error.message.includes("message is not modified"))) {
+      throw error;
+    }
+  }
+};
+
+/**
+ * A report with its 🔄 / ➕ / ⬅️ buttons. Unknown departments come back as a plain error text.
+ */
+const reportReply = async (agent: Agent, userId: number, query: ReportQuery): Promise<AgentReply> => {
+  const department = normalizeDepartmentKey(query.department);
+  const report = await agent.runReport(userId, query);
+  if (query.department && !department) {
+    return { text: report.text };
+  }
+  return { text: report.text, buttons: reportButtons({ ...query, department }, report.hasMore) };
+};
+
+// How the Telegram user is recorded in the audit log
+const describeUser = (ctx: Context): string | undefined => {
+  if (!ctx.from) return undefined;
+  const fullName = [ctx.from.first_name, ctx.from.last_name].filter(Boolean).join(" ");
+  return ctx.from.username ? `${fullName} (@${ctx.from.username})` : fullName;
+};
+
 export const createBot = (
   agent: Agent,
   transcriber: VoiceTranscriber,
@@ -48,7 +159,13 @@ export const createBot = (
 
   bot.start(async (ctx) => {
     logger.info("telegram_start", { userId: ctx.from?.id });
-    await ctx.reply("Бот аналітики ClickUp готовий. Задайте питання або введіть /help.");
+    await ctx.reply("Бот аналітики ClickUp готовий. Задайте питання, оберіть звіт нижче або введіть /help.");
+    await sendReply(ctx, mainMenu());
+  });
+
+  bot.command("menu", async (ctx) => {
+    logger.info("telegram_menu", { userId: ctx.from?.id });
+    await sendReply(ctx, mainMenu());
   });
 
   bot.command("help", async (ctx) => {
@@ -61,33 +178,210 @@ export const createBot = (
         "- <b>Покажи прострочені задачі проекту Botox</b>",
         "- <b>Які задачі у Іллі?</b>",
         "- <b>Завислі задачі по всіх клієнтах</b>",
+        "- <b>Прострочені в папці Sales projects</b>",
+        "- <b>Скільки прострочених у Botox?</b>",
+        "- <b>Прострочені по людях, найстаріші спочатку</b>",
         "- <b>Що на сьогодні у voice_agents?</b>",
+        "- <b>Що може зірватися цього тижня?</b>",
+        "- <b>Прострочені й на сьогодні у Аліни по ботоксу</b>",
+        "- <b>Задачі з дедлайном цього тижня, створені в жовтні</b>",
+        "- <b>Створи задачу Ігорю в botox на п'ятницю: оновити лендинг</b>",
+        "- <b>Перенеси задачу «Оновити лендинг» на понеділок</b>",
+        "- <b>Чому зависла задача «CRM інтеграція»?</b>",
+        "- <b>Знайди задачу про лендинг</b>",
+        "- <b>Що закрили за тиждень у botox?</b>",
+        "- <b>Скільки задач створили і закрили минулого тижня?</b>",
+        "- <b>Скільки задачі висять на затвердженні?</b>",
+        "",
+        "✏️ під списком задач — змінити статус, дедлайн, виконавця або переглянути коментарі.",
+        "🔗 Надішліть посилання на задачу або її ID — бот покаже картку задачі.",
         "",
         "Можна надіслати голосове повідомлення.",
+        "/menu — меню звітів, відділів і людей.",
+        "/overdue [відділ] — прострочені задачі й топ виконавців.",
+        "/not_updated [відділ] — хто сьогодні не оновлював задачі з дедлайном сьогодні.",
+        "/stale [днів] [відділ] — задачі без оновлень N днів (за замовчуванням 7).",
+        "/active &lt;відділ&gt; — активні задачі відділу.",
+        "/morning — ранковий огляд: задачі під загрозою зриву дедлайну.",
+        "/refresh — повністю оновити дані з ClickUp.",
       ].join("\n"),
       { parse_mode: "HTML" }
     );
   });
 
+  const REPORT_COMMANDS: Array<[string, ReportType]> = [
+    ["overdue", "overdue"],
+    ["not_updated", "not_updated_today"],
+    ["stale", "stale_n_days"],
+    ["active", "active_tasks"],
+  ];
+  for (const [command, type] of REPORT_COMMANDS) {
+    bot.command(command, async (ctx) => {
+      const userId = ctx.from?.id ?? 0;
+      const query = parseReportArgs(type, ctx.message.text);
+      logger.info("telegram_report", { userId, ...query });
+      try {
+        await sendReply(ctx, await reportReply(agent, userId, query));
+      } catch (error) {
+        logger.error("telegram_report_failed", {
+          type,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        await ctx.reply(isClickUpError(error) ? error.userMessage : "Не вдалося зібрати звіт. Спробуйте ще раз.");
+      }
+    });
+  }
+
+  bot.command("morning", async (ctx) => {
+    logger.info("telegram_morning", { userId: ctx.from?.id });
+    try {
+      await sendReply(ctx, { text: await agent.buildMorningDigest() });
+    } catch (error) {
+      logger.error("telegram_morning_failed", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      await ctx.reply(isClickUpError(error) ? error.userMessage : "Не вдалося зібрати огляд. Спробуйте ще раз.");
+    }
+  });
+
+  bot.command("refresh", async (ctx) => {
+    logger.info("telegram_refresh", { userId: ctx.from?.id });
+    try {
+      const startedAt = Date.now();
+      const count = await agent.refreshTasks();
+      const seconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+      await ctx.reply(`🔄 Дані оновлено: ${count} відкритих задач (${seconds} с).`);
+    } catch (error) {
+      logger.error("telegram_refresh_failed", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      await ctx.reply(isClickUpError(error) ? error.userMessage : "Не вдалося оновити дані. Спробуйте ще раз.");
+    }
+  });
+
+  // Confirm/Cancel on write actions: replace the card with the outcome
+  bot.action(/^act:/, async (ctx) => {
+    const userId = ctx.from?.id ?? 0;
+    const data = "data" in ctx.callbackQuery ? ctx.callbackQuery.data : "";
+    logger.info("telegram_action", { userId, data });
+    try {
+      await ctx.answerCbQuery();
+      const reply = await agent.handleActionCallback(userId, data, describeUser(ctx));
+      if (!reply) return;
+      await ctx.editMessageText(reply.text, { parse_mode: "HTML", ...toInlineKeyboard(reply) });
+    } catch (error) {
+      logger.error("telegram_action_failed", {
+        message: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      await ctx.reply(isClickUpError(error) ? error.userMessage : "Не вдалося виконати дію. Спробуйте ще раз.");
+    }
+  });
+
+  // ✏️ buttons under task lists: the menu opens as a new message (the list stays),
+  // further steps edit that menu in place
+  bot.action(/^task:/, async (ctx) => {
+    const userId = ctx.from?.id ?? 0;
+    const data = "data" in ctx.callbackQuery ? ctx.callbackQuery.data : "";
+    logger.info("telegram_task_action", { userId, data });
+    try {
+      await ctx.answerCbQuery();
+      const reply = await agent.handleTaskCallback(userId, data);
+      if (!reply) return;
+      if (data.startsWith("task:menu:")) {
+        await sendReply(ctx, reply);
+        return;
+      }
+      await ctx.editMessageText(reply.text, { parse_mode: "HTML", ...toInlineKeyboard(reply) });
+    } catch (error) {
+      logger.error("telegram_task_action_failed", {
+        message: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      await ctx.reply(isClickUpError(error) ? error.userMessage : "Не вдалося виконати дію. Спробуйте ще раз.");
+    }
+  });
+
+  // Menu navigation edits the menu message in place; task lists open as new messages
+  // so the menu stays above them
+  const handleMenu = async (ctx: Context, userId: number, callback: MenuCallback) => {
+    switch (callback.kind) {
+      case "main":
+        return editReply(ctx, mainMenu());
+      case "departments":
+        return editReply(ctx, departmentPicker(callback.page));
+      case "department":
+        return editReply(ctx, departmentMenu(callback.key, callback.page) ?? departmentPicker(0));
+      case "people":
+        return editReply(ctx, peoplePicker(callback.page));
+      case "person":
+        return editReply(ctx, personMenu(callback.id, callback.page) ?? peoplePicker(0));
+      case "risk":
+        return editReply(ctx, { text: await agent.buildMorningDigest(), buttons: riskButtons() });
+      case "report":
+        return editReply(ctx, await reportReply(agent, userId, callback.query));
+      case "tasks":
+        return sendReply(ctx, await agent.showPersonTasks(userId, callback.personId, callback.filter));
+    }
+  };
+
+  bot.action(MENU_CALLBACK_PATTERN, async (ctx) => {
+    const userId = ctx.from?.id ?? 0;
+    const data = "data" in ctx.callbackQuery ? ctx.callbackQuery.data : "";
+    logger.info("telegram_menu_action", { userId, data });
+    try {
+      await ctx.answerCbQuery();
+      const callback = parseMenuCallback(data);
+      if (!callback) return;
+      await handleMenu(ctx, userId, callback);
+    } catch (error) {
+      logger.error("telegram_menu_action_failed", {
+        message: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      await ctx.reply(isClickUpError(error) ? error.userMessage : "Не вдалося виконати дію. Спробуйте ще раз.");
+    }
+  });
+
+  // ◀ ▶ under long task lists: the stored page replaces the current one
+  bot.action(PAGE_CALLBACK_PATTERN, async (ctx) => {
+    const userId = ctx.from?.id ?? 0;
+    const data = "data" in ctx.callbackQuery ? ctx.callbackQuery.data : "";
+    logger.info("telegram_page_action", { userId, data });
+    try {
+      await ctx.answerCbQuery();
+      const page = await agent.handlePageCallback(userId, data);
+      if (!page) {
+        await ctx.reply("Цей список застарів. Надішліть запит ще раз.");
+        return;
+      }
+      await editReply(ctx, page);
+    } catch (error) {
+      logger.error("telegram_page_action_failed", {
+        message: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      await ctx.reply("Не вдалося показати сторінку. Спробуйте ще раз.");
+    }
+  });
+
   bot.on("text", async (ctx) => {
     try {
       const userId = ctx.from?.id ?? 0;
       const text = ctx.message.text;
       logger.info("telegram_text", { userId, text });
-      const response = await agent.handleMessage(userId, text);
-      
-      // Split into multiple messages if needed
-      const chunks = splitMessage(response);
-      for (let i = 0; i < chunks.length; i++) {
-        const chunk = chunks[i];
-        const prefix = chunks.length > 1 && i > 0 ? `<i>(частина ${i + 1}/${chunks.length})</i>\n\n` : '';
-        await ctx.reply(prefix + chunk, { parse_mode: "HTML" });
-      }
+      // A pasted task link or id gets its detail card without a model round-trip
+      const response = (await agent.handleTaskReference(userId, text)) ?? (await agent.handleMessage(userId, text));
+      await sendReply(ctx, response);
     } catch (error) {
       logger.error("telegram_text_failed", {
         message: error instanceof Error ? error.message : String(error),
         stack: error instanceof Error ? error.stack : undefined,
       });
+      if (isClickUpError(error)) {
+        await ctx.reply(error.userMessage);
+        return;
+      }
       await ctx.reply("Не вдалося обробити запит. Будь ласка, спробуйте ще раз.");
     }
   });
@@ -105,14 +399,7 @@ export const createBot = (
       });
       const userId = ctx.from?.id ?? 0;
       const response = await agent.handleMessage(userId, transcript);
-      
-      // Split into multiple messages if needed
-      const chunks = splitMessage(response);
-      for (let i = 0; i < chunks.length; i++) {
-        const chunk = chunks[i];
-        const prefix = chunks.length > 1 && i > 0 ? `<i>(частина ${i + 1}/${chunks.length})</i>\n\n` : '';
-        await ctx.reply(prefix + chunk, { parse_mode: "HTML" });
-      }
+      await sendReply(ctx, response);
     } catch (error) {
       const message = error instanceof Error ? error.message : "";
       logger.error("telegram_audio_failed", {
@@ -123,6 +410,10 @@ export const createBot = (
         await ctx.reply("Для транскрипції голосу необхідно встановити ffmpeg на сервері.");
         return;
       }
+      if (isClickUpError(error)) {
+        await ctx.reply(error.userMessage);
+        return;
+      }
       await ctx.reply("Не вдалося обробити голосове повідомлення. Будь ласка, спробуйте ще раз.");
     }
   };
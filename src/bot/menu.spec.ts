@@ -0,0 +1,43 @@
+import { parseMenuCallback } from "./menu";
+
+describe("parseMenuCallback", () => {
+  it("parses every menu screen", () => {
+    expect(parseMenuCallback("menu:main")).toEqual({ kind: "main" });
+    expect(parseMenuCallback("menu:risk")).toEqual({ kind: "risk" });
+    expect(parseMenuCallback("menu:depts:2")).toEqual({ kind: "departments", page: 2 });
+    expect(parseMenuCallback("menu:dept:botox:1")).toEqual({ kind: "department", key: "botox", page: 1 });
+    expect(parseMenuCallback("menu:people:0")).toEqual({ kind: "people", page: 0 });
+    expect(parseMenuCallback("menu:person:100638820:3")).toEqual({ kind: "person", id: "100638820", page: 3 });
+    expect(parseMenuCallback("menu:tasks:100638820:overdue")).toEqual({
+      kind: "tasks",
+      personId: "100638820",
+      filter: "overdue",
+    });
+  });
+
+  it("falls back to the first page for a missing or broken page number", () => {
+    expect(parseMenuCallback("menu:depts")).toEqual({ kind: "departments", page: 0 });
+    expect(parseMenuCallback("menu:people:-1")).toEqual({ kind: "people", page: 0 });
+    expect(parseMenuCallback("menu:dept:botox:x")).toEqual({ kind: "department", key: "botox", page: 0 });
+  });
+
+  it("reads report queries with empty parts as defaults and caps the limit", () => {
+    expect(parseMenuCallback("menu:rep:overdue:::")).toEqual({
+      kind: "report",
+      query: { type: "overdue", department: undefined, days: undefined, limit: undefined },
+    });
+    expect(parseMenuCallback("menu:rep:stale_n_days:botox:5:100")).toEqual({
+      kind: "report",
+      query: { type: "stale_n_days", department: "botox", days: 5, limit: 30 },
+    });
+  });
+
+  it("rejects unknown or incomplete callbacks", () => {
+    expect(parseMenuCallback("task:menu:86abc123")).toBeNull();
+    expect(parseMenuCallback("menu:unknown")).toBeNull();
+    expect(parseMenuCallback("menu:dept")).toBeNull();
+    expect(parseMenuCallback("menu:person")).toBeNull();
+    expect(parseMenuCallback("menu:tasks:100638820:completed")).toBeNull();
+    expect(parseMenuCallback("menu:rep:weekly:::")).toBeNull();
+  });
+});
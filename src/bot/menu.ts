@@ -0,0 +1,223 @@
+import { departmentKeys, isDepartmentGroup } from "../config/departments";
+import { findMemberById, members } from "../config/teamMembers";
+import { FilterType } from "../agent/queryTypes";
+import { AgentReply, ReplyButton } from "../agent/types";
+import { REPORT_TYPES, ReportQuery, ReportType } from "../reports/types";
+import { escapeHtml } from "../utils/html";
+
+// Picker pages: two buttons per row, six rows
+const PAGE_SIZE = 12;
+const PER_ROW = 2;
+
+// "Показати ще" adds this many tasks, up to a size that still fits one message
+const REPORT_LIMIT_STEP = 10;
+const MAX_REPORT_LIMIT = 30;
+
+// Groups ("всі клієнти", "демо") first - they are what managers ask about most
+const PICKER_DEPARTMENTS = [
+  ...departmentKeys.filter((key) => isDepartmentGroup(key)),
+  ...departmentKeys.filter((key) => !isDepartmentGroup(key)),
+];
+
+const PERSON_FILTERS: Array<[FilterType, string]> = [
+  ["overdue", "🔴 Прострочені"],
+  ["due_today", "📅 На сьогодні"],
+  ["at_risk", "⚠️ Під загрозою"],
+  ["stuck", "⏳ Зависли"],
+  ["none", "📋 Усі задачі"],
+];
+
+export type MenuCallback =
+  | { kind: "main" }
+  | { kind: "risk" }
+  | { kind: "departments"; page: number }
+  | { kind: "department"; key: string; page: number }
+  | { kind: "people"; page: number }
+  | { kind: "person"; id: string; page: number }
+  | { kind: "tasks"; personId: string; filter: FilterType }
+  | { kind: "report"; query: ReportQuery };
+
+// menu:main | menu:risk | menu:depts:<page> | menu:dept:<key>:<page> | menu:people:<page>
+// | menu:person:<id>:<page> | menu:tasks:<id>:<filter> | menu:rep:<type>:<department>:<days>:<limit>
+// - empty department/days mean "all"/default. All of them stay under Telegram's 64 bytes.
+export const MENU_CALLBACK_PATTERN = /^menu:/;
+
+const reportCallback = (query: ReportQuery): string =>
+  `menu:rep:${query.type}:${query.department ?? ""}:${query.days ?? ""}:${query.limit ?? ""}`;
+
+const toPage = (value: string | undefined): number => {
+  const page = Number(value);
+  return Number.isInteger(page) && page >= 0 ? page : 0;
+};
+
+export const parseMenuCallback = (data: string): MenuCallback | null => {
+  const [prefix, kind, ...args] = data.split(":");
+  if (prefix !== "menu") {
+    return null;
+  }
+  switch (kind) {
+    case "main":
+      return { kind: "main" };
+    case "risk":
+      return { kind: "risk" };
+    case "depts":
+      return { kind: "departments", page: toPage(args[0]) };
+    case "dept":
+      return args[0] ? { kind: "department", key: args[0], page: toPage(args[1]) } : null;
+    case "people":
+      return { kind: "people", page: toPage(args[0]) };
+    case "person":
+      return args[0] ? { kind: "person", id: args[0], page: toPage(args[1]) } : null;
+    case "tasks": {
+      const filter = PERSON_FILTERS.find(([value]) => value === args[1])?.[0];
+      return args[0] && filter ? { kind: "tasks", personId: args[0], filter } : null;
+    }
+    case "rep": {
+      const [type, department, days, limit] = args;
+      if (!(REPORT_TYPES as readonly string[]).includes(type)) {
+        return null;
+      }
+      return {
+        kind: "report",
+        query: {
+          type: type as ReportType,
+          department: department || undefined,
+          days: Number(days) > 0 ? Number(days) : undefined,
+          limit: Number(limit) > 0 ? Math.min(Number(limit), MAX_REPORT_LIMIT) : undefined,
+        },
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+const toRows = (buttons: ReplyButton[], perRow: number = PER_ROW): ReplyButton[][] => {
+  const rows: ReplyButton[][] = [];
+  for (let i = 0; i < buttons.length; i += perRow) {
+    rows.push(buttons.slice(i, i + perRow));
+  }
+  return rows;
+};
+
+/**
+ * ◀ ▶ between picker pages; nothing when everything fits on one page
+ */
+const pageRow = (page: number, total: number, callbackFor: (page: number) => string): ReplyButton[] => {
+  const pages = Math.ceil(total / PAGE_SIZE);
+  const row: ReplyButton[] = [];
+  if (page > 0) {
+    row.push({ text: "◀", callbackData: callbackFor(page - 1) });
+  }
+  if (page < pages - 1) {
+    row.push({ text: "▶", callbackData: callbackFor(page + 1) });
+  }
+  return row;
+};
+
+const backButton = (callbackData: string, text: string = "⬅️ Назад"): ReplyButton => ({ text, callbackData });
+
+export const mainMenu = (): AgentReply => ({
+  text: "📋 <b>Меню</b>\n\nОберіть звіт, відділ або людину:",
+  buttons: [
+    [
+      { text: "📌 Прострочені", callbackData: reportCallback({ type: "overdue" }) },
+      { text: "💤 Хто не оновлював", callbackData: reportCallback({ type: "not_updated_today" }) },
+    ],
+    [
+      { text: "🕒 Зависли 7 днів", callbackData: reportCallback({ type: "stale_n_days", days: 7 }) },
+      { text: "⚠️ Під загрозою", callbackData: "menu:risk" },
+    ],
+    [
+      { text: "🗂 Відділи", callbackData: "menu:depts:0" },
+      { text: "👤 Люди", callbackData: "menu:people:0" },
+    ],
+  ],
+});
+
+export const departmentPicker = (page: number): AgentReply => {
+  const pages = Math.ceil(PICKER_DEPARTMENTS.length / PAGE_SIZE);
+  const current = Math.min(page, pages - 1);
+  const keys = PICKER_DEPARTMENTS.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE);
+  const buttons = keys.map((key) => ({
+    text: isDepartmentGroup(key) ? `📁 ${key}` : key,
+    callbackData: `menu:dept:${key}:${current}`,
+  }));
+  const paging = pageRow(current, PICKER_DEPARTMENTS.length, (next) => `menu:depts:${next}`);
+  return {
+    text: `🗂 <b>Оберіть відділ</b>${pages > 1 ? ` (${current + 1}/${pages})` : ""}\n📁 — група відділів`,
+    buttons: [...toRows(buttons), ...(paging.length > 0 ? [paging] : []), [backButton("menu:main")]],
+  };
+};
+
+/**
+ * Standard reports for one department; null for a key that is no longer configured
+ */
+export const departmentMenu = (key: string, page: number): AgentReply | null => {
+  if (!departmentKeys.includes(key)) {
+    return null;
+  }
+  return {
+    text: `🗂 <b>${escapeHtml(key)}</b>${isDepartmentGroup(key) ? " (група)" : ""}\n\nОберіть звіт:`,
+    buttons: [
+      [
+        { text: "📌 Прострочені", callbackData: reportCallback({ type: "overdue", department: key }) },
+        { text: "💤 Хто не оновлював", callbackData: reportCallback({ type: "not_updated_today", department: key }) },
+      ],
+      [
+        { text: "🕒 Зависли 7 днів", callbackData: reportCallback({ type: "stale_n_days", department: key, days: 7 }) },
+        { text: "🟢 Активні", callbackData: reportCallback({ type: "active_tasks", department: key }) },
+      ],
+      [backButton(`menu:depts:${page}`, "⬅️ До відділів")],
+    ],
+  };
+};
+
+export const peoplePicker = (page: number): AgentReply => {
+  const pages = Math.ceil(members.length / PAGE_SIZE);
+  const current = Math.min(page, pages - 1);
+  const buttons = members
+    .slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE)
+    .map((member) => ({ text: member.name, callbackData: `menu:person:${member.id}:${current}` }));
+  const paging = pageRow(current, members.length, (next) => `menu:people:${next}`);
+  return {
+    text: `👤 <b>Оберіть людину</b>${pages > 1 ? ` (${current + 1}/${pages})` : ""}`,
+    buttons: [...toRows(buttons), ...(paging.length > 0 ? [paging] : []), [backButton("menu:main")]],
+  };
+};
+
+/**
+ * Task lists for one person; null for an id that is not in members.json
+ */
+export const personMenu = (id: string, page: number): AgentReply | null => {
+  const member = findMemberById(id);
+  if (!member) {
+    return null;
+  }
+  const buttons = PERSON_FILTERS.map(([filter, text]) => ({ text, callbackData: `menu:tasks:${member.id}:${filter}` }));
+  return {
+    text: `👤 <b>${escapeHtml(member.name)}</b>${member.role ? `\n${escapeHtml(member.role)}` : ""}\n\nЩо показати?`,
+    buttons: [...toRows(buttons), [backButton(`menu:people:${page}`, "⬅️ До людей")]],
+  };
+};
+
+/**
+ * Refresh / Show more / Back under a report. Back leads to the department's menu
+ * when the report is about one department, otherwise to the main menu.
+ */
+export const reportButtons = (query: ReportQuery, hasMore: boolean): ReplyButton[][] => {
+  const row: ReplyButton[] = [{ text: "🔄 Оновити", callbackData: reportCallback(query) }];
+  const limit = query.limit ?? REPORT_LIMIT_STEP;
+  if (hasMore && limit < MAX_REPORT_LIMIT) {
+    row.push({ text: "➕ Показати ще", callbackData: reportCallback({ ...query, limit: limit + REPORT_LIMIT_STEP }) });
+  }
+  const back = query.department && departmentKeys.includes(query.department)
+    ? backButton(`menu:dept:${query.department}:0`)
+    : backButton("menu:main", "⬅️ Меню");
+  return [row, [back]];
+};
+
+export const riskButtons = (): ReplyButton[][] => [
+  [{ text: "🔄 Оновити", callbackData: "menu:risk" }],
+  [backButton("menu:main", "⬅️ Меню")],
+];
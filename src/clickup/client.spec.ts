@@ -0,0 +1,81 @@
+import { ClickUpClient } from "./client";
+import { ClickUpApiError, ClickUpNetworkError, ClickUpRateLimitError } from "./errors";
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers });
+
+describe("ClickUpClient retries", () => {
+  let fetchMock: jest.SpyInstance;
+  // Two retries after the first attempt
+  const client = new ClickUpClient("https://clickup.test/api/v2", "token", 1000, 2);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    fetchMock = jest.spyOn(global, "fetch");
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+    jest.useRealTimers();
+  });
+
+  it("retries server errors and network failures until a request succeeds", async () => {
+    fetchMock
+      .mockResolvedValueOnce(json(502, { err: "Bad gateway" }))
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(json(200, { id: "list_1" }));
+
+    const result = client.get("/list/list_1");
+    await jest.advanceTimersByTimeAsync(10_000);
+
+    await expect(result).resolves.toEqual({ id: "list_1" });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(fetchMock.mock.calls[0][0]).toBe("https://clickup.test/api/v2/list/list_1");
+  });
+
+  it("gives up after maxRetries", async () => {
+    fetchMock.mockRejectedValue(new TypeError("fetch failed"));
+
+    const result = client.get("/task/abc");
+    const failed = expect(result).rejects.toBeInstanceOf(ClickUpNetworkError);
+    await jest.advanceTimersByTimeAsync(10_000);
+
+    await failed;
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry client errors", async () => {
+    fetchMock.mockResolvedValueOnce(json(404, { err: "Task not found" }));
+
+    await expect(client.get("/task/missing")).rejects.toMatchObject({ status: 404, endpoint: "/task/missing" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits as long as ClickUp asks after a rate limit", async () => {
+    fetchMock
+      .mockResolvedValueOnce(json(429, { err: "Rate limit" }, { "retry-after": "2" }))
+      .mockResolvedValueOnce(json(200, { ok: true }));
+
+    const result = client.get("/team");
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(10_000);
+    await expect(result).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports the rate limit once retries run out", async () => {
+    const noRetries = new ClickUpClient("https://clickup.test/api/v2", "token", 1000, 0);
+    fetchMock.mockResolvedValueOnce(json(429, { err: "Rate limit" }, { "retry-after": "1" }));
+
+    // The shared bucket may still be paused by an earlier rate limit
+    const result = noRetries.get("/team").catch((caught: unknown) => caught);
+    await jest.advanceTimersByTimeAsync(10_000);
+    const error = await result;
+
+    expect(error).toBeInstanceOf(ClickUpRateLimitError);
+    expect(error).toBeInstanceOf(ClickUpApiError);
+    expect((error as ClickUpRateLimitError).retryAfterMs).toBe(1000);
+  });
+});
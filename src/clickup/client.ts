@@ -0,0 +1,182 @@
+import { config } from "../config/config";
+import { logger } from "../utils/logger";
+import {
+  ClickUpApiError,
+  ClickUpError,
+  ClickUpNetworkError,
+  ClickUpRateLimitError,
+  ClickUpTimeoutError,
+} from "./errors";
+import { TokenBucket } from "./rateLimiter";
+
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+
+type QueryValue = string | number | boolean | Array<string | number> | null | undefined;
+
+export type ClickUpQuery = Record<string, QueryValue>;
+
+type RequestOptions = {
+  query?: ClickUpQuery;
+  body?: unknown;
+};
+
+// Shared across all clients: ClickUp limits requests per token, not per caller.
+const bucket = TokenBucket.perMinute(config.clickup.rateLimitPerMinute);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const buildQueryString = (query?: ClickUpQuery): string => {
+  if (!query) {
+    return "";
+  }
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        params.append(`${key}[]`, String(item));
+      }
+      continue;
+    }
+    params.append(key, String(value));
+  }
+  return params.toString();
+};
+
+const isRetryableStatus = (status: number): boolean => status === 429 || status >= 500;
+
+const backoffDelay = (attempt: number): number => {
+  const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return exponential / 2 + Math.random() * (exponential / 2);
+};
+
+/**
+ * ClickUp reports the reset moment as a unix timestamp in seconds; fall back to
+ * Retry-After and finally to regular backoff.
+ */
+const getRateLimitResetMs = (response: Response): number => {
+  const reset = Number(response.headers.get("x-ratelimit-reset"));
+  if (Number.isFinite(reset) && reset > 0) {
+    return Math.max(0, reset * 1000 - Date.now());
+  }
+  const retryAfter = Number(response.headers.get("retry-after"));
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    return retryAfter * 1000;
+  }
+  return backoffDelay(0);
+};
+
+/**
+ * ClickUp REST API v2 client with timeouts, retries and shared rate limiting.
+ */
+export class ClickUpClient {
+  constructor(
+    private baseUrl = config.clickup.baseUrl,
+    private apiKey = config.clickup.apiKey,
+    private timeoutMs = config.clickup.timeoutMs,
+    private maxRetries = config.clickup.maxRetries
+  ) {}
+
+  get<T = any>(endpoint: string, query?: ClickUpQuery): Promise<T> {
+    return this.request<T>("GET", endpoint, { query });
+  }
+
+  post<T = any>(endpoint: string, body?: unknown): Promise<T> {
+    return this.request<T>("POST", endpoint, { body });
+  }
+
+  put<T = any>(endpoint: string, body?: unknown): Promise<T> {
+    return this.request<T>("PUT", endpoint, { body });
+  }
+
+  delete<T = any>(endpoint: string): Promise<T> {
+    return this.request<T>("DELETE", endpoint);
+  }
+
+  async request<T>(method: string, endpoint: string, options: RequestOptions = {}): Promise<T> {
+    const queryString = buildQueryString(options.query);
+    const separator = endpoint.includes("?") ? "&" : "?";
+    const url = `${this.baseUrl}${endpoint}${queryString ? separator + queryString : ""}`;
+
+    let attempt = 0;
+    while (true) {
+      await bucket.acquire();
+      try {
+        return await this.send<T>(method, url, endpoint, options.body);
+      } catch (error) {
+        if (!this.shouldRetry(error) || attempt >= this.maxRetries) {
+          logger.error("clickup_request_failed", { method, endpoint, attempt, error: String(error) });
+          throw error;
+        }
+
+        const delay = error instanceof ClickUpRateLimitError
+          ? error.retryAfterMs
+          : backoffDelay(attempt);
+        logger.warn("clickup_request_retry", { method, endpoint, attempt, delay, error: String(error) });
+        await sleep(delay);
+        attempt++;
+      }
+    }
+  }
+
+  private shouldRetry(error: unknown): boolean {
+    if (error instanceof ClickUpApiError) {
+      return isRetryableStatus(error.status);
+    }
+    return error instanceof ClickUpTimeoutError || error instanceof ClickUpNetworkError;
+  }
+
+  private async send<T>(method: string, url: string, endpoint: string, body: unknown): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          Authorization: this.apiKey,
+          "Content-Type": "application/json",
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+      });
+      const text = await response.text();
+
+      if (!response.ok) {
+        if (response.status === 429) {
+          const retryAfterMs = getRateLimitResetMs(response);
+          bucket.pauseUntil(Date.now() + retryAfterMs);
+          throw new ClickUpRateLimitError(text, endpoint, retryAfterMs);
+        }
+        throw new ClickUpApiError(response.status, text, endpoint);
+      }
+
+      if (!text) {
+        return {} as T;
+      }
+      try {
+        return JSON.parse(text) as T;
+      } catch (error) {
+        throw new ClickUpError(
+          `ClickUp returned invalid JSON on ${endpoint}: ${String(error)}`,
+          "❌ ClickUp повернув некоректну відповідь."
+        );
+      }
+    } catch (error) {
+      if (error instanceof ClickUpError) {
+        throw error;
+      }
+      if (controller.signal.aborted) {
+        throw new ClickUpTimeoutError(endpoint, this.timeoutMs);
+      }
+      throw new ClickUpNetworkError(endpoint, error);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+export const clickupClient = new ClickUpClient();
@@ -0,0 +1,65 @@
+/**
+ * Typed ClickUp REST errors. Every error carries a short Ukrainian message
+ * that can be sent to Telegram as-is.
+ */
+export class ClickUpError extends Error {
+  constructor(message: string, readonly userMessage: string) {
+    super(message);
+    this.name = "ClickUpError";
+  }
+}
+
+export class ClickUpApiError extends ClickUpError {
+  constructor(readonly status: number, readonly body: string, readonly endpoint: string) {
+    super(`ClickUp API error ${status} on ${endpoint}: ${body}`, describeStatus(status));
+    this.name = "ClickUpApiError";
+  }
+}
+
+export class ClickUpRateLimitError extends ClickUpApiError {
+  constructor(body: string, endpoint: string, readonly retryAfterMs: number) {
+    super(429, body, endpoint);
+    this.name = "ClickUpRateLimitError";
+  }
+}
+
+export class ClickUpTimeoutError extends ClickUpError {
+  constructor(readonly endpoint: string, readonly timeoutMs: number) {
+    super(
+      `ClickUp request timed out after ${timeoutMs}ms: ${endpoint}`,
+      "⏳ ClickUp не відповідає. Спробуйте ще раз за хвилину."
+    );
+    this.name = "ClickUpTimeoutError";
+  }
+}
+
+export class ClickUpNetworkError extends ClickUpError {
+  constructor(readonly endpoint: string, cause: unknown) {
+    super(
+      `ClickUp network error on ${endpoint}: ${cause instanceof Error ? cause.message : String(cause)}`,
+      "🌐 Немає з'єднання з ClickUp. Спробуйте ще раз пізніше."
+    );
+    this.name = "ClickUpNetworkError";
+  }
+}
+
+const describeStatus = (status: number): string => {
+  if (status === 401) {
+    return "❌ ClickUp відхилив токен. Перевірте CLICKUP_API_KEY.";
+  }
+  if (status === 403) {
+    return "🔒 Немає доступу до цих даних у ClickUp.";
+  }
+  if (status === 404) {
+    return "🔍 ClickUp не знайшов такий обʼєкт.";
+  }
+  if (status === 429) {
+    return "⚠️ Перевищено ліміт запитів до ClickUp. Почекайте хвилину і спробуйте знову.";
+  }
+  if (status >= 500) {
+    return "⚠️ ClickUp тимчасово недоступний. Спробуйте ще раз пізніше.";
+  }
+  return `❌ Помилка ClickUp API (${status}).`;
+};
+
+export const isClickUpError = (error: unknown): error is ClickUpError => error instanceof ClickUpError;
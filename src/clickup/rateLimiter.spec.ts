@@ -0,0 +1,58 @@
+import { TokenBucket } from "./rateLimiter";
+
+describe("TokenBucket", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const acquireAll = (bucket: TokenBucket, count: number) => {
+    const granted: number[] = [];
+    for (let i = 0; i < count; i++) {
+      void bucket.acquire().then(() => granted.push(i));
+    }
+    return granted;
+  };
+
+  it("grants up to its capacity at once and the rest as tokens refill", async () => {
+    // 2 tokens, one more every second
+    const bucket = new TokenBucket(2, 1 / 1000);
+    const granted = acquireAll(bucket, 4);
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual([0, 1]);
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(granted).toEqual([0, 1]);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(granted).toEqual([0, 1, 2]);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(granted).toEqual([0, 1, 2, 3]);
+  });
+
+  it("holds every request until the pause is over", async () => {
+    const bucket = TokenBucket.perMinute(60);
+    bucket.pauseUntil(Date.now() + 5000);
+    const granted = acquireAll(bucket, 1);
+
+    await jest.advanceTimersByTimeAsync(5999);
+    expect(granted).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(granted).toEqual([0]);
+  });
+
+  it("ignores a pause that is already over", async () => {
+    const bucket = new TokenBucket(1, 1 / 1000);
+    bucket.pauseUntil(Date.now() - 1000);
+    const granted = acquireAll(bucket, 1);
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual([0]);
+  });
+});
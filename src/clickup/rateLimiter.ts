@@ -0,0 +1,61 @@
+/**
+ * Token bucket limiter. One instance is shared by every ClickUp request in the
+ * process so concurrent loaders stay under the per-minute workspace limit.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Array<() => void> = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private capacity: number, private refillPerMs: number) {
+    this.tokens = capacity;
+  }
+
+  static perMinute(limit: number): TokenBucket {
+    return new TokenBucket(limit, limit / 60_000);
+  }
+
+  acquire(): Promise<void> {
+    return new Promise((resolve) => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+  }
+
+  /**
+   * Empty the bucket until the given time, e.g. when ClickUp reports the limit
+   * was hit by another client using the same token.
+   */
+  pauseUntil(timestampMs: number): void {
+    const waitMs = timestampMs - Date.now();
+    if (waitMs <= 0) {
+      return;
+    }
+    this.tokens = -waitMs * this.refillPerMs;
+    this.lastRefill = Date.now();
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    this.refill();
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.queue.shift()!();
+    }
+
+    if (this.queue.length > 0 && !this.timer) {
+      const waitMs = Math.ceil((1 - this.tokens) / this.refillPerMs);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, waitMs);
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { signWebhookBody, verifyWebhookSignature } from "./webhooks";
+
+describe("verifyWebhookSignature", () => {
+  const secret = "webhook-secret";
+  const body = JSON.stringify({ event: "taskUpdated", task_id: "86abc123" });
+
+  it("accepts the HMAC-SHA256 hex digest of the raw body", () => {
+    expect(verifyWebhookSignature(body, signWebhookBody(body, secret), secret)).toBe(true);
+  });
+
+  it("rejects a changed body or another secret", () => {
+    const signature = signWebhookBody(body, secret);
+    expect(verifyWebhookSignature(body.replace("86abc123", "86abc124"), signature, secret)).toBe(false);
+    expect(verifyWebhookSignature(body, signature, "other-secret")).toBe(false);
+  });
+
+  it("rejects a missing or malformed signature", () => {
+    expect(verifyWebhookSignature(body, undefined, secret)).toBe(false);
+    expect(verifyWebhookSignature(body, "", secret)).toBe(false);
+    expect(verifyWebhookSignature(body, "not-hex", secret)).toBe(false);
+    expect(verifyWebhookSignature(body, signWebhookBody(body, secret).slice(0, 32), secret)).toBe(false);
+  });
+});
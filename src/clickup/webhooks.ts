@@ -0,0 +1,161 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { createServer, IncomingMessage, Server } from "http";
+import { config } from "../config/config";
+import { logger } from "../utils/logger";
+import { ClickUpClient } from "./client";
+
+export const TASK_WEBHOOK_EVENTS = [
+  "taskCreated",
+  "taskUpdated",
+  "taskStatusUpdated",
+  "taskDeleted",
+] as const;
+
+export type TaskWebhookEventName = (typeof TASK_WEBHOOK_EVENTS)[number];
+
+export type TaskWebhookEvent = {
+  event: TaskWebhookEventName;
+  task_id: string;
+  webhook_id?: string;
+  history_items?: unknown[];
+};
+
+type ClickUpWebhook = {
+  id: string;
+  endpoint: string;
+  secret?: string;
+  events?: string[];
+};
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * ClickUp signs the raw request body with HMAC-SHA256 using the webhook secret
+ * and sends the hex digest in the X-Signature header.
+ */
+export const signWebhookBody = (body: string, secret: string): string =>
+  createHmac("sha256", secret).update(body).digest("hex");
+
+export const verifyWebhookSignature = (body: string, signature: string | undefined, secret: string): boolean => {
+  if (!signature) {
+    return false;
+  }
+  const expected = Buffer.from(signWebhookBody(body, secret), "hex");
+  const received = Buffer.from(signature, "hex");
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+const isTaskEvent = (payload: unknown): payload is TaskWebhookEvent => {
+  if (!payload || typeof payload !== "object") {
+    return false;
+  }
+  const data = payload as { event?: unknown; task_id?: unknown };
+  return (
+    typeof data.task_id === "string" &&
+    TASK_WEBHOOK_EVENTS.includes(data.event as TaskWebhookEventName)
+  );
+};
+
+/**
+ * Find our webhook among the team's registrations or create it.
+ * Returns the signing secret ClickUp generated for it.
+ */
+export const registerWebhook = async (clickup: ClickUpClient, endpoint: string): Promise<string> => {
+  const teamId = config.clickup.teamId;
+  const existing = await clickup.get<{ webhooks?: ClickUpWebhook[] }>(`/team/${teamId}/webhook`);
+  const match = (existing.webhooks || []).find((webhook) => webhook.endpoint === endpoint);
+
+  if (match?.secret) {
+    const missingEvents = TASK_WEBHOOK_EVENTS.filter((event) => !match.events?.includes(event));
+    if (missingEvents.length > 0 && !match.events?.includes("*")) {
+      await clickup.put(`/webhook/${match.id}`, {
+        endpoint,
+        events: [...TASK_WEBHOOK_EVENTS],
+        status: "active",
+      });
+    }
+    logger.info("webhook_reused", { webhookId: match.id, endpoint });
+    return match.secret;
+  }
+
+  const created = await clickup.post<{ id: string; webhook?: ClickUpWebhook }>(`/team/${teamId}/webhook`, {
+    endpoint,
+    events: [...TASK_WEBHOOK_EVENTS],
+  });
+  if (!created.webhook?.secret) {
+    throw new Error(`ClickUp did not return a secret for webhook ${created.id}`);
+  }
+  logger.info("webhook_registered", { webhookId: created.id, endpoint });
+  return created.webhook.secret;
+};
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("WEBHOOK_BODY_TOO_LARGE"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+
+/**
+ * HTTP receiver for ClickUp task webhooks. Responds 200 as soon as the signature
+ * checks out and hands the event to `onEvent` without blocking ClickUp.
+ */
+export const createWebhookServer = (options: {
+  path: string;
+  secret: string;
+  onEvent: (event: TaskWebhookEvent) => Promise<void>;
+}): Server => {
+  return createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (req.method !== "POST" || url.pathname !== options.path) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    let body: string;
+    try {
+      body = await readBody(req);
+    } catch (error) {
+      logger.warn("webhook_body_rejected", { error: String(error) });
+      res.writeHead(413).end();
+      return;
+    }
+
+    const signature = req.headers["x-signature"];
+    if (!verifyWebhookSignature(body, Array.isArray(signature) ? signature[0] : signature, options.secret)) {
+      logger.warn("webhook_signature_invalid", { remote: req.socket.remoteAddress });
+      res.writeHead(401).end();
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      res.writeHead(400).end();
+      return;
+    }
+
+    res.writeHead(200).end();
+
+    if (!isTaskEvent(payload)) {
+      logger.info("webhook_ignored", { event: (payload as { event?: unknown })?.event });
+      return;
+    }
+
+    logger.info("webhook_received", { event: payload.event, taskId: payload.task_id });
+    options.onEvent(payload).catch((error) => {
+      logger.error("webhook_apply_failed", { event: payload.event, taskId: payload.task_id, error: String(error) });
+    });
+  });
+};
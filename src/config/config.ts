@@ -14,6 +14,11 @@ const OptionalNumberSchema = z.preprocess((value) => {
   return value;
 }, z.number().optional());
 
+const OptionalStringSchema = z.preprocess(
+  (value) => (value === "" ? undefined : value),
+  z.string().optional()
+);
+
 const EnvSchema = z.object({
   TELEGRAM_BOT_TOKEN: z.string().min(1),
   OPENAI_API_KEY: z.string().min(1),
@@ -25,7 +30,23 @@ const EnvSchema = z.object({
   CLICKUP_API_KEY: z.string().min(1),
   CLICKUP_TEAM_ID: z.string().min(1),
   CLICKUP_MCP_LICENSE_KEY: z.string().optional(),
+  CLICKUP_API_BASE_URL: z.string().default("https://api.clickup.com/api/v2"),
+  CLICKUP_RATE_LIMIT_PER_MINUTE: z.coerce.number().int().positive().default(100),
+  CLICKUP_TIMEOUT_MS: z.coerce.number().int().positive().default(15000),
+  CLICKUP_MAX_RETRIES: z.coerce.number().int().min(0).default(4),
+  CLICKUP_LOAD_CONCURRENCY: z.coerce.number().int().positive().default(4),
+  TASK_CACHE_MAX_AGE_SECONDS: z.coerce.number().int().min(0).default(60),
+  TASK_CACHE_FULL_RESYNC_MINUTES: z.coerce.number().int().positive().default(30),
+  CLICKUP_WEBHOOK_URL: OptionalStringSchema,
+  CLICKUP_WEBHOOK_SECRET: OptionalStringSchema,
+  WEBHOOK_PORT: z.coerce.number().int().positive().default(3000),
+  WEBHOOK_RECONCILE_MINUTES: z.coerce.number().int().positive().default(15),
   TIMEZONE: z.string().default("Europe/Lisbon"),
+  MORNING_DIGEST_TIME: z.preprocess(
+    (value) => (value === "" ? undefined : value),
+    z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "MORNING_DIGEST_TIME must be HH:mm").optional()
+  ),
+  AT_RISK_DAYS: z.coerce.number().int().min(0).default(3),
   ADMIN_TELEGRAM_IDS: z.string().min(1),
   SUPABASE_URL: z.string().min(1),
   SUPABASE_SERVICE_ROLE_KEY: z.string().min(1),
@@ -85,12 +106,31 @@ export const config = {
     apiKey: env.CLICKUP_API_KEY,
     teamId: env.CLICKUP_TEAM_ID,
     licenseKey: env.CLICKUP_MCP_LICENSE_KEY,
+    baseUrl: env.CLICKUP_API_BASE_URL.replace(/\/+$/, ""),
+    rateLimitPerMinute: env.CLICKUP_RATE_LIMIT_PER_MINUTE,
+    timeoutMs: env.CLICKUP_TIMEOUT_MS,
+    maxRetries: env.CLICKUP_MAX_RETRIES,
+    loadConcurrency: env.CLICKUP_LOAD_CONCURRENCY,
+  },
+  taskCache: {
+    maxAgeMs: env.TASK_CACHE_MAX_AGE_SECONDS * 1000,
+    fullResyncMs: env.TASK_CACHE_FULL_RESYNC_MINUTES * 60 * 1000,
+  },
+  webhook: {
+    url: env.CLICKUP_WEBHOOK_URL,
+    secret: env.CLICKUP_WEBHOOK_SECRET,
+    port: env.WEBHOOK_PORT,
+    reconcileMs: env.WEBHOOK_RECONCILE_MINUTES * 60 * 1000,
   },
   mcp: {
     command: env.MCP_CLICKUP_COMMAND,
     args: parseArgs(env.MCP_CLICKUP_ARGS),
     path: env.MCP_CLICKUP_PATH,
   },
+  morningDigest: {
+    time: env.MORNING_DIGEST_TIME,   // Unset - no scheduled digest
+    withinDays: env.AT_RISK_DAYS,
+  },
   supabase: {
     url: env.SUPABASE_URL,
     serviceRoleKey: env.SUPABASE_SERVICE_ROLE_KEY,
@@ -5,6 +5,7 @@ const DepartmentSchema = z.object({
   list_ids: z.array(z.string()).optional(),
   space_ids: z.array(z.string()).optional(),
   aliases: z.array(z.string()).optional(),
+  departments: z.array(z.string()).optional(),  // Group: keys of the member departments
 });
 
 const DepartmentsSchema = z.record(z.string(), DepartmentSchema);
@@ -19,8 +20,11 @@ const spaceIdIndex = new Map<string, string>();
 const aliasIndex = new Map<string, string>();
 
 for (const [department, config] of Object.entries(departments)) {
+  // Groups have no lists of their own; a list shared by two departments keeps the first
   for (const listId of config.list_ids ?? []) {
-    listIdIndex.set(listId, department);
+    if (!listIdIndex.has(listId)) {
+      listIdIndex.set(listId, department);
+    }
   }
   for (const spaceId of config.space_ids ?? []) {
     spaceIdIndex.set(spaceId, department);
@@ -45,6 +49,26 @@ export const normalizeDepartmentKey = (value?: string): string | undefined => {
   return aliasIndex.get(lowered);
 };
 
+export const isDepartmentGroup = (key: string): boolean => (departments[key]?.departments?.length ?? 0) > 0;
+
+/**
+ * A department itself, or every department a group expands to (groups may nest)
+ */
+export const expandDepartment = (key: string, seen: Set<string> = new Set()): string[] => {
+  const config = departments[key];
+  if (!config || seen.has(key)) {
+    return [];
+  }
+  seen.add(key);
+  if (!config.departments) {
+    return [key];
+  }
+  return Array.from(new Set(config.departments.flatMap((member) => expandDepartment(member, seen))));
+};
+
+/**
+ * Lists and spaces of a department or group, by key or alias. Empty when unknown.
+ */
 export const getDepartmentFilter = (value?: string): {
   list_ids?: string[];
   space_ids?: string[];
@@ -53,13 +77,17 @@ export const getDepartmentFilter = (value?: string): {
   if (!key) {
     return {};
   }
-  const config = departments[key];
+  const members = expandDepartment(key).map((member) => departments[member]);
+  const listIds = Array.from(new Set(members.flatMap((config) => config.list_ids ?? [])));
+  const spaceIds = Array.from(new Set(members.flatMap((config) => config.space_ids ?? [])));
   return {
-    list_ids: config.list_ids && config.list_ids.length > 0 ? config.list_ids : undefined,
-    space_ids: config.space_ids && config.space_ids.length > 0 ? config.space_ids : undefined,
+    list_ids: listIds.length > 0 ? listIds : undefined,
+    space_ids: spaceIds.length > 0 ? spaceIds : undefined,
   };
 };
 
+export const getDepartmentListIds = (value?: string): string[] => getDepartmentFilter(value).list_ids ?? [];
+
 export const getAllDepartmentFilter = (): { list_ids?: string[]; space_ids?: string[] } => {
   const listIds = new Set<string>();
   const spaceIds = new Set<string>();
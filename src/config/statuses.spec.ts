@@ -0,0 +1,33 @@
+import { classifyStatus, isOpenStatus } from "./statuses";
+
+describe("classifyStatus", () => {
+  it("keeps closing statuses done whatever the name", () => {
+    expect(classifyStatus({ status: "в роботі", type: "done" })).toBe("done");
+    expect(classifyStatus({ status: "review", type: "closed" })).toBe("done");
+  });
+
+  it("prefers the configured category over the ClickUp type", () => {
+    expect(classifyStatus({ status: "To Do", type: "custom" })).toBe("backlog");
+    expect(classifyStatus({ status: " На затвердження ", type: "custom" })).toBe("review");
+    expect(classifyStatus({ status: "допрацювати", type: "open" })).toBe("rework");
+  });
+
+  it("falls back to the ClickUp type for unknown names", () => {
+    expect(classifyStatus({ status: "чернетка", type: "open" })).toBe("backlog");
+    expect(classifyStatus({ status: "дизайн", type: "custom" })).toBe("active");
+  });
+
+  it("guesses from the name when there is no type", () => {
+    expect(classifyStatus("Complete")).toBe("done");
+    expect(classifyStatus("in progress")).toBe("active");
+    expect(classifyStatus("backlog")).toBe("backlog");
+    expect(classifyStatus(undefined)).toBe("active");
+  });
+});
+
+describe("isOpenStatus", () => {
+  it("is true for everything short of done", () => {
+    expect(isOpenStatus({ status: { status: "review", type: "custom" } })).toBe(true);
+    expect(isOpenStatus({ status: { status: "closed", type: "closed" } })).toBe(false);
+  });
+});
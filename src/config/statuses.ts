@@ -0,0 +1,67 @@
+import { z } from "zod";
+import statusesData from "./statuses.json";
+
+export const STATUS_CATEGORIES = ["backlog", "active", "review", "rework", "done"] as const;
+
+export type StatusCategory = (typeof STATUS_CATEGORIES)[number];
+
+// Status name (any case) -> category
+const CategoryMapSchema = z.record(z.string(), z.enum(STATUS_CATEGORIES));
+
+const StatusesSchema = z.object({
+  default: CategoryMapSchema.default({}),
+  lists: z.record(z.string(), CategoryMapSchema).default({}),  // Per-list overrides, by list id
+});
+
+const statusesConfig = StatusesSchema.parse(statusesData);
+
+const normalize = (name: string): string => name.trim().toLowerCase();
+
+const toIndex = (map: Record<string, StatusCategory>): Map<string, StatusCategory> =>
+  new Map(Object.entries(map).map(([name, category]) => [normalize(name), category]));
+
+const defaultIndex = toIndex(statusesConfig.default);
+const listIndexes = new Map(Object.entries(statusesConfig.lists).map(([listId, map]) => [listId, toIndex(map)]));
+
+export type StatusLike = string | { status?: string; type?: string } | null | undefined;
+
+/**
+ * Category of a status: the list's override, then the default override, then
+ * ClickUp's status type (open → backlog, custom → active, done/closed → done).
+ */
+export const classifyStatus = (status: StatusLike, listId?: string | null): StatusCategory => {
+  const name = normalize((typeof status === "string" ? status : status?.status) ?? "");
+  const type = typeof status === "string" ? undefined : status?.type;
+
+  // Closing statuses stay done whatever the name - an override can't reopen a task
+  if (type === "done" || type === "closed") {
+    return "done";
+  }
+  const override = (listId ? listIndexes.get(String(listId))?.get(name) : undefined) ?? defaultIndex.get(name);
+  if (override) {
+    return override;
+  }
+  if (type === "open") {
+    return "backlog";
+  }
+  if (type === "custom") {
+    return "active";
+  }
+  // No type (string statuses from older payloads) - only the name is left to go on
+  return /\b(done|closed|complete)\b/.test(name) ? "done" : "active";
+};
+
+/**
+ * Category of a task's current status, with its list's overrides
+ */
+export const getTaskStatusCategory = (task: {
+  status?: StatusLike;
+  list?: { id?: string } | null;
+  list_id?: string;
+}): StatusCategory => classifyStatus(task.status, task.list?.id ?? task.list_id);
+
+/**
+ * Not finished yet: anything from backlog to rework
+ */
+export const isOpenStatus = (task: Parameters<typeof getTaskStatusCategory>[0]): boolean =>
+  getTaskStatusCategory(task) !== "done";
@@ -0,0 +1,52 @@
+import membersData from "./members.json";
+
+export type MemberConfig = {
+  id: number;
+  name: string;
+  username?: string;
+  email?: string;
+  aliases?: string[];
+  role?: string;
+  exclude_from_counts?: boolean;
+};
+
+export const members = membersData as MemberConfig[];
+
+export const findMemberById = (id: string | number): MemberConfig | undefined =>
+  members.find((member) => String(member.id) === String(id));
+
+/**
+ * Display name of a task assignee: the team's name for them, else ClickUp's username,
+ * email or id (ClickUp leaves username null for invited users who never set one).
+ */
+export const assigneeName = (assignee: { id: string | number; username?: string | null; email?: string }): string =>
+  findMemberById(assignee.id)?.name ?? assignee.username ?? assignee.email ?? String(assignee.id);
+
+/**
+ * First member whose name, username or alias occurs in the (lowercased) text.
+ * Substring match so inflected forms like "Ігорю" still hit the alias "Ігор".
+ */
+export const findMemberByText = (textLower: string): MemberConfig | undefined => {
+  for (const member of members) {
+    const candidates = [member.name, member.username, ...(member.aliases || [])]
+      .filter(Boolean) as string[];
+    for (const candidate of candidates) {
+      const candidateLower = candidate.toLowerCase();
+      if (candidateLower && textLower.includes(candidateLower)) {
+        return member;
+      }
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Resolve a member from a ClickUp user ID or any name/alias form.
+ */
+export const resolveMember = (value: string): MemberConfig | undefined => {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return findMemberById(trimmed);
+  }
+  return findMemberByText(trimmed.toLowerCase());
+};
@@ -0,0 +1,140 @@
+import os from "os";
+import path from "path";
+import { DateTime, Settings } from "luxon";
+import type OpenAI from "openai";
+import type { FakeClickUpServer } from "../scripts/fakeClickUp/server";
+import type { ConversationStore, SessionState, StoredMessage, StoredTaskList } from "./storage/types";
+
+// Monday morning in the bot's timezone - fixture dates ("today-3d", ...) resolve against it
+const TIMEZONE = "Europe/Kyiv";
+const NOW = DateTime.fromISO("2026-10-19T09:00:00", { zone: TIMEZONE }).toMillis();
+
+const ILYA_ID = "100638820";
+
+/**
+ * In-memory stand-in for Supabase
+ */
+const createStore = () => {
+  const messages: StoredMessage[] = [];
+  const taskLists = new Map<string, StoredTaskList>();
+  let state: SessionState = {};
+  const store: ConversationStore = {
+    getRecentMessages: async (_userId, limit) => messages.slice(-limit),
+    saveMessage: async (_userId, role, content) => {
+      messages.push({ role, content });
+    },
+    getState: async () => state,
+    updateState: async (_userId, next) => {
+      state = next;
+      return state;
+    },
+    saveAuditEntry: async () => undefined,
+    saveTaskList: async (list) => {
+      taskLists.set(list.id, list);
+    },
+    getTaskList: async (_userId, id) => taskLists.get(id) ?? null,
+  };
+  return { store, messages, getState: () => state };
+};
+
+/**
+ * OpenAI client that answers every request with one load_and_filter_tasks call
+ */
+const createOpenAI = (args: Record<string, unknown>) => {
+  const create = jest.fn(async () => ({
+    choices: [
+      {
+        message: {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            { id: "call_1", type: "function", function: { name: "load_and_filter_tasks", arguments: JSON.stringify(args) } },
+          ],
+        },
+      },
+    ],
+  }));
+  return { openai: { chat: { completions: { create } } } as unknown as OpenAI, create };
+};
+
+describe("bot against the fake ClickUp API", () => {
+  let server: FakeClickUpServer;
+
+  beforeAll(async () => {
+    jest.spyOn(Date, "now").mockReturnValue(NOW);
+    Settings.now = () => NOW;
+
+    Object.assign(process.env, {
+      TELEGRAM_BOT_TOKEN: "test",
+      OPENAI_API_KEY: "test",
+      CLICKUP_API_KEY: "test",
+      CLICKUP_TEAM_ID: "9012345678",
+      ADMIN_TELEGRAM_IDS: "1",
+      SUPABASE_URL: "http://127.0.0.1",
+      SUPABASE_SERVICE_ROLE_KEY: "test",
+      TIMEZONE,
+      BOT_LOG_PATH: path.join(os.tmpdir(), "botoxclickup-e2e.log"),
+      DOTENV_CONFIG_QUIET: "true",
+    });
+
+    const { startFakeClickUpServer } = await import("../scripts/fakeClickUp/server");
+    server = await startFakeClickUpServer();
+    process.env.CLICKUP_API_BASE_URL = server.url;
+
+    // The server already loaded config - reload every module with the fake base URL.
+    // The reloaded luxon is a new instance, so its clock is frozen again.
+    jest.resetModules();
+    (await import("luxon")).Settings.now = () => NOW;
+  });
+
+  afterAll(async () => {
+    await server?.close();
+    jest.restoreAllMocks();
+  });
+
+  it("ranks people by overdue, stuck and due-today tasks", async () => {
+    const { QueryProcessor } = await import("./agent/queryProcessor");
+    const { generateOverdueStats } = await import("./agent/statistics");
+
+    const tasks = await new QueryProcessor().getAllTasks();
+    const stats = generateOverdueStats(tasks);
+
+    expect(stats).toContain("Топ-5 за проблемними задачами");
+    // Closed and done-type tasks (86fake009, 86fake010, 86fake013) are not counted
+    expect(stats).toContain("<b>ihor klym</b> — 2 (🔴2)");
+    expect(stats).toContain("<b>Ilya Senchuk</b> — 3 (🔴2 + 🟠1)");
+    expect(stats).toContain("<b>Alina Hurtskaiia</b> — 1 (🟡1)");
+    expect(stats).toContain("<b>Olha Zubach</b> — 1 (🟡1)");
+    expect(stats).toContain("<b>Oleksii Kaganovsky</b> — 1 (🔴1)");
+  });
+
+  it("answers a task question through one tool call", async () => {
+    const { Agent } = await import("./agent/agent");
+    const { ClickUpClient } = await import("./clickup/client");
+    const { store, messages, getState } = createStore();
+    const { openai, create } = createOpenAI({
+      entityType: "person",
+      entityId: ILYA_ID,
+      entityName: "Ilya Senchuk",
+      filterType: "overdue",
+    });
+
+    const agent = new Agent(openai, store, { model: "test-model" }, new ClickUpClient());
+    const reply = await agent.handleMessage(1, "Прострочені задачі Іллі");
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create.mock.calls[0]).toEqual([expect.objectContaining({ model: "test-model", tool_choice: "required" })]);
+
+    expect(reply.text).toContain("Ilya Senchuk</a> (2)");
+    expect(reply.text).toContain("Підготувати креативи для реклами");
+    expect(reply.text).toContain("Отримати доступи до API CRM");
+    // Due in two days - not overdue
+    expect(reply.text).not.toContain("Описати маппінг полів");
+
+    expect(messages).toEqual([
+      { role: "user", content: "Прострочені задачі Іллі" },
+      { role: "assistant", content: reply.text },
+    ]);
+    expect(getState()).toMatchObject({ lastPersonId: ILYA_ID, lastPersonName: "Ilya Senchuk" });
+  });
+});
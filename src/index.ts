@@ -1,8 +1,12 @@
+import { Server } from "http";
 import OpenAI from "openai";
 import { Agent } from "./agent/agent";
-import { createBot } from "./bot/bot";
+import { createBot, sendToAdmins } from "./bot/bot";
+import { clickupClient } from "./clickup/client";
+import { createWebhookServer, registerWebhook } from "./clickup/webhooks";
 import { config } from "./config/config";
 import { SupabaseStore } from "./storage/supabaseStore";
+import { scheduleWeekdays } from "./utils/dailySchedule";
 import { VoiceTranscriber } from "./utils/voiceTranscriber";
 import { logger } from "./utils/logger";
 
@@ -25,6 +29,11 @@ const main = async () => {
   });
   logger.info("agent_created");
 
+  // Warm the task snapshot in the background so the first query is fast
+  agent.refreshTasks()
+    .then((count) => logger.info("task_cache_warmed", { count }))
+    .catch((error) => logger.error("task_cache_warm_failed", { error: String(error) }));
+
   console.log("Creating transcriber...");
   const transcriber = new VoiceTranscriber(openai);
   logger.info("transcriber_created");
@@ -33,6 +42,54 @@ const main = async () => {
   const bot = createBot(agent, transcriber, config.telegram);
   logger.info("bot_created");
 
+  let webhookServer: Server | null = null;
+  let reconcileTimer: NodeJS.Timeout | null = null;
+  let secret: string | null = null;
+  if (config.webhook.url) {
+    console.log("Starting ClickUp webhook receiver...");
+    // ClickUp unreachable or the token lacks access: stay on polling instead of failing to start
+    try {
+      secret = config.webhook.secret ?? (await registerWebhook(clickupClient, config.webhook.url));
+    } catch (error) {
+      logger.error("webhook_register_failed", { url: config.webhook.url, error: String(error) });
+    }
+  }
+  if (config.webhook.url && secret) {
+    webhookServer = createWebhookServer({
+      path: new URL(config.webhook.url).pathname,
+      secret,
+      onEvent: (event) => agent.applyTaskEvent(event),
+    });
+    // Port taken or not allowed: stay on polling instead of crashing the bot
+    webhookServer.on("error", (error) => {
+      logger.error("webhook_receiver_failed", { port: config.webhook.port, error: String(error) });
+    });
+    webhookServer.listen(config.webhook.port, () => {
+      agent.enableLiveUpdates();
+
+      // Full refetch repairs anything a missed or out-of-order webhook left behind
+      reconcileTimer = setInterval(() => {
+        agent.refreshTasks()
+          .then((count) => logger.info("task_cache_reconciled", { count }))
+          .catch((error) => logger.error("task_cache_reconcile_failed", { error: String(error) }));
+      }, config.webhook.reconcileMs);
+      logger.info("webhook_receiver_started", { port: config.webhook.port, url: config.webhook.url });
+    });
+  }
+
+  let cancelMorningDigest: (() => void) | null = null;
+  if (config.morningDigest.time) {
+    cancelMorningDigest = scheduleWeekdays(config.morningDigest.time, config.timezone, async () => {
+      try {
+        await sendToAdmins(bot, config.telegram.adminIds, await agent.buildMorningDigest());
+        logger.info("morning_digest_sent", { recipients: config.telegram.adminIds.length });
+      } catch (error) {
+        logger.error("morning_digest_failed", { error: String(error) });
+      }
+    });
+    logger.info("morning_digest_scheduled", { time: config.morningDigest.time, timezone: config.timezone });
+  }
+
   console.log("Launching bot...");
   await bot.launch();
   console.log("Bot launched successfully!");
@@ -40,6 +97,9 @@ const main = async () => {
 
   const shutdown = async () => {
     logger.info("bot_shutdown");
+    if (reconcileTimer) clearInterval(reconcileTimer);
+    cancelMorningDigest?.();
+    webhookServer?.close();
     bot.stop();
     process.exit(0);
   };
@@ -1,15 +1,16 @@
 import { DateTime } from "luxon";
 import { config } from "../config/config";
-import {
-  findDepartmentByListId,
-  getDepartmentFilter,
-  normalizeDepartmentKey,
-} from "../config/departments";
-import { ClickUpMcpClient } from "../mcp/clickupClient";
-import { ClickUpAssignee, ClickUpTask, ReportQuery } from "./types";
+import { findDepartmentByListId, normalizeDepartmentKey } from "../config/departments";
+import { isOpenStatus } from "../config/statuses";
+import { assigneeName } from "../config/teamMembers";
+import { isOverdue } from "../agent/deadlineRisk";
+import { QueryProcessor } from "../agent/queryProcessor";
+import { TaskData } from "../agent/queryTypes";
+import { formatFooter } from "../agent/taskListFormatter";
+import { escapeAttr, escapeHtml } from "../utils/html";
 import { logger } from "../utils/logger";
+import { ReportQuery, ReportResult } from "./types";
 
-const MAX_TASKS = 2000;
 const DEFAULT_TASK_LIMIT = 10;
 const DEFAULT_STALE_DAYS = 7;
 const DEFAULT_ASSIGNEE_TASK_LIMIT = 5;
@@ -22,159 +23,84 @@ const toMillis = (value: unknown): number | null => {
   return Number.isFinite(parsed) ? parsed : null;
 };
 
-const getStatusName = (task: ClickUpTask): string => {
+const getStatusName = (task: TaskData): string => {
   if (typeof task.status === "string") {
     return task.status;
   }
-  return task.status?.status ?? "Unknown";
+  return task.status?.status ?? "—";
 };
 
-const isActiveStatus = (status: string): boolean => {
-  const lowered = status.toLowerCase();
-  if (lowered.includes("done")) {
-    return false;
-  }
-  if (lowered.includes("closed")) {
-    return false;
-  }
-  return true;
-};
-
-const getAssigneeLabel = (assignee: ClickUpAssignee): string => {
-  return (
-    assignee.username ||
-    assignee.name ||
-    assignee.email ||
-    (assignee.id !== undefined ? String(assignee.id) : "Unknown")
-  );
-};
-
-const getTaskListId = (task: ClickUpTask): string | undefined => {
-  return task.list?.id ?? task.list_id;
-};
+const UNASSIGNED = "без виконавця";
 
-const extractTasks = (payload: unknown): ClickUpTask[] => {
-  if (!payload) {
-    return [];
-  }
-  if (Array.isArray(payload)) {
-    return payload as ClickUpTask[];
-  }
-  if (typeof payload === "object") {
-    const data = payload as { tasks?: ClickUpTask[]; data?: { tasks?: ClickUpTask[] } };
-    if (Array.isArray(data.tasks)) {
-      return data.tasks;
-    }
-    if (data.data && Array.isArray(data.data.tasks)) {
-      return data.data.tasks;
-    }
-  }
-  return [];
-};
-
-const shouldStopPaging = (payload: unknown, pageTasks: ClickUpTask[]): boolean => {
-  if (pageTasks.length === 0) {
-    return true;
-  }
-  if (payload && typeof payload === "object") {
-    const data = payload as { last_page?: boolean; has_more?: boolean };
-    if (data.last_page === true) {
-      return true;
-    }
-    if (data.has_more === false) {
-      return true;
-    }
-  }
-  return false;
+const getAssigneeLabels = (task: TaskData): string[] => {
+  const assignees = task.assignees || [];
+  return assignees.length > 0
+    ? assignees.map((assignee) => assigneeName(assignee))
+    : [UNASSIGNED];
 };
 
 const formatDate = (timestamp: number | null, timezone: string): string => {
   if (!timestamp) {
-    return "n/a";
+    return "—";
   }
   return DateTime.fromMillis(timestamp, { zone: timezone }).toFormat("dd.MM");
 };
 
-const formatTask = (task: ClickUpTask, timezone: string): string => {
-  const status = getStatusName(task);
-  const listId = getTaskListId(task);
-  const department = listId ? findDepartmentByListId(listId) : undefined;
-  const departmentLabel = department ? `[${department}] ` : "";
-  const assignees = task.assignees && task.assignees.length > 0
-    ? task.assignees.map(getAssigneeLabel).join(", ")
-    : "Unassigned";
+const formatTask = (task: TaskData, timezone: string): string => {
+  const department = findDepartmentByListId(task.list?.id);
+  const departmentLabel = department ? `[${escapeHtml(department)}] ` : "";
+  const name = task.url
+    ? `<a href="${escapeAttr(task.url)}">${escapeHtml(task.name)}</a>`
+    : escapeHtml(task.name);
   const due = formatDate(toMillis(task.due_date), timezone);
   const updated = formatDate(toMillis(task.date_updated), timezone);
-  const link = task.url ?? "";
 
   return [
-    `- ${departmentLabel}${status}`,
-    `  ${task.name ?? "Untitled"}`,
-    `  assignee: ${assignees} | due: ${due} | upd: ${updated}`,
-    link ? `  ${link}` : "",
-  ]
-    .filter((line) => line.length > 0)
-    .join("\n");
+    `• ${departmentLabel}${name}`,
+    `   ${escapeHtml(getStatusName(task))} | 👤 ${escapeHtml(getAssigneeLabels(task).join(", "))} | дедлайн: ${due} | оновлено: ${updated}`,
+  ].join("\n");
 };
 
-export class ReportService {
-  constructor(private clickup: ClickUpMcpClient, private timezone = config.timezone) {}
-
-  private async fetchTasks(filters: Record<string, unknown>): Promise<ClickUpTask[]> {
-    const tasks: ClickUpTask[] = [];
-    let page = 0;
-
-    logger.info("report_fetch_start", { filters });
-    while (tasks.length < MAX_TASKS) {
-      const payload = await this.clickup.getWorkspaceTasks({ ...filters, page });
-      const pageTasks = extractTasks(payload);
-      tasks.push(...pageTasks);
-      logger.info("report_fetch_page", { page, count: pageTasks.length, total: tasks.length });
-
-      if (shouldStopPaging(payload, pageTasks)) {
-        break;
-      }
-
-      page += 1;
-    }
+const scopeLabel = (query: ReportQuery): string => (query.department ? ` — ${escapeHtml(query.department)}` : "");
 
+/**
+ * Ready-made management reports (overdue, not updated today, stale, active) over the
+ * same task snapshot QueryProcessor serves, returned as Telegram HTML.
+ */
+export class ReportService {
+  constructor(private queryProcessor: QueryProcessor, private timezone = config.timezone) {}
+
+  /**
+   * Open tasks of a department (or everyone in scope) plus the truncation footer
+   */
+  private async fetchTasks(department?: string): Promise<{ tasks: TaskData[]; footer: string }> {
+    logger.info("report_fetch_start", { department });
+    const { tasks, truncatedSources } = await this.queryProcessor.processQuery({
+      entityType: department ? "department" : "all",
+      entityId: department,
+      filterType: "none",
+      operation: "count",
+    });
     logger.info("report_fetch_done", { total: tasks.length });
-    return tasks.slice(0, MAX_TASKS);
+    const footer = formatFooter({ truncatedSources, cacheAgeMs: this.queryProcessor.getCacheAgeMs() });
+    return { tasks: tasks.filter((task) => isOpenStatus(task)), footer };
   }
 
-  async getOverdueReport(query: ReportQuery): Promise<string> {
+  async getOverdueReport(query: ReportQuery): Promise<ReportResult> {
     const now = DateTime.now().setZone(this.timezone);
-    const nowMillis = now.toMillis();
-    const departmentFilter = getDepartmentFilter(query.department);
-
-    const tasks = await this.fetchTasks({
-      ...departmentFilter,
-      due_date_lt: nowMillis,
-      include_closed: false,
-      order_by: "due_date",
-    });
+    const { tasks, footer } = await this.fetchTasks(query.department);
 
     const overdueTasks = tasks
-      .filter((task) => {
-        const due = toMillis(task.due_date);
-        if (!due || due >= nowMillis) {
-          return false;
-        }
-        return isActiveStatus(getStatusName(task));
-      })
+      .filter((task) => isOverdue(task, now))
       .sort((a, b) => (toMillis(a.due_date) ?? 0) - (toMillis(b.due_date) ?? 0));
 
     if (overdueTasks.length === 0) {
-      return "No overdue tasks found.";
+      return { text: `✅ Прострочених задач немає${scopeLabel(query)}.` + footer, hasMore: false };
     }
 
     const assigneeCounts = new Map<string, number>();
     for (const task of overdueTasks) {
-      const assignees = task.assignees && task.assignees.length > 0
-        ? task.assignees
-        : [{ name: "Unassigned" }];
-      for (const assignee of assignees) {
-        const label = getAssigneeLabel(assignee);
+      for (const label of getAssigneeLabels(task)) {
         assigneeCounts.set(label, (assigneeCounts.get(label) ?? 0) + 1);
       }
     }
@@ -182,37 +108,29 @@ export class ReportService {
     const topAssignees = Array.from(assigneeCounts.entries())
       .sort((a, b) => b[1] - a[1])
       .slice(0, 5)
-      .map(([name, count], index) => `${index + 1}) ${name} - ${count}`)
+      .map(([name, count], index) => `${index + 1}) ${escapeHtml(name)} — ${count}`)
       .join("\n");
 
     const limit = query.limit ?? DEFAULT_TASK_LIMIT;
     const taskLines = overdueTasks.slice(0, limit).map((task) => formatTask(task, this.timezone));
 
-    return [
-      `Overdue tasks: ${overdueTasks.length}`,
-      "Top assignees:",
+    const text = [
+      `🔴 <b>Прострочені задачі${scopeLabel(query)}: ${overdueTasks.length}</b>`,
+      "",
+      "<b>Топ виконавців:</b>",
       topAssignees,
-      `Tasks (first ${Math.min(limit, overdueTasks.length)}):`,
+      "",
+      `<b>Задачі (перші ${Math.min(limit, overdueTasks.length)}):</b>`,
       ...taskLines,
-    ]
-      .filter((line) => line.length > 0)
-      .join("\n");
+    ].join("\n") + footer;
+    return { text, hasMore: overdueTasks.length > limit };
   }
 
-  async getNotUpdatedTodayReport(query: ReportQuery): Promise<string> {
+  async getNotUpdatedTodayReport(query: ReportQuery): Promise<ReportResult> {
     const now = DateTime.now().setZone(this.timezone);
     const startOfDay = now.startOf("day");
     const endOfDay = now.endOf("day");
-    const departmentFilter = getDepartmentFilter(query.department);
-
-    const tasks = await this.fetchTasks({
-      ...departmentFilter,
-      due_date_gt: startOfDay.toMillis() - 1,
-      due_date_lt: endOfDay.toMillis() + 1,
-      date_updated_lt: startOfDay.toMillis(),
-      include_closed: false,
-      order_by: "due_date",
-    });
+    const { tasks, footer } = await this.fetchTasks(query.department);
 
     const filteredTasks = tasks.filter((task) => {
       const due = toMillis(task.due_date);
@@ -220,23 +138,16 @@ export class ReportService {
         return false;
       }
       const updated = toMillis(task.date_updated);
-      if (!updated || updated >= startOfDay.toMillis()) {
-        return false;
-      }
-      return isActiveStatus(getStatusName(task));
+      return Boolean(updated) && updated! < startOfDay.toMillis();
     });
 
     if (filteredTasks.length === 0) {
-      return "No tasks found that were due today and not updated.";
+      return { text: `✅ Усі задачі з дедлайном сьогодні вже оновлювали${scopeLabel(query)}.` + footer, hasMore: false };
     }
 
-    const assigneeMap = new Map<string, ClickUpTask[]>();
+    const assigneeMap = new Map<string, TaskData[]>();
     for (const task of filteredTasks) {
-      const assignees = task.assignees && task.assignees.length > 0
-        ? task.assignees
-        : [{ name: "Unassigned" }];
-      for (const assignee of assignees) {
-        const label = getAssigneeLabel(assignee);
+      for (const label of getAssigneeLabels(task)) {
         if (!assigneeMap.has(label)) {
           assigneeMap.set(label, []);
         }
@@ -249,95 +160,82 @@ export class ReportService {
     );
 
     const sections: string[] = [
-      `Not updated today (due today): ${filteredTasks.length} tasks`,
+      `💤 <b>Не оновлювали сьогодні (дедлайн сьогодні)${scopeLabel(query)}: ${filteredTasks.length}</b>`,
     ];
 
     for (const [assignee, tasksForAssignee] of assigneeEntries) {
-      const header = `${assignee} - ${tasksForAssignee.length}`;
+      const header = `\n<b>${escapeHtml(assignee)}</b> — ${tasksForAssignee.length}`;
       const taskLines = tasksForAssignee
         .slice(0, DEFAULT_ASSIGNEE_TASK_LIMIT)
-        .map((task) => `  - ${task.name ?? "Untitled"}`);
+        .map((task) => `  • ${task.url ? `<a href="${escapeAttr(task.url)}">${escapeHtml(task.name)}</a>` : escapeHtml(task.name)}`);
+      if (tasksForAssignee.length > DEFAULT_ASSIGNEE_TASK_LIMIT) {
+        taskLines.push(`  <i>+ ще ${tasksForAssignee.length - DEFAULT_ASSIGNEE_TASK_LIMIT}</i>`);
+      }
       sections.push(header, ...taskLines);
     }
 
-    return sections.join("\n");
+    // Per-person lists have a fixed size - a bigger limit shows nothing new
+    return { text: sections.join("\n") + footer, hasMore: false };
   }
 
-  async getStaleReport(query: ReportQuery): Promise<string> {
+  async getStaleReport(query: ReportQuery): Promise<ReportResult> {
     const now = DateTime.now().setZone(this.timezone);
     const days = query.days ?? DEFAULT_STALE_DAYS;
     const cutoff = now.minus({ days }).toMillis();
-    const departmentFilter = getDepartmentFilter(query.department);
-
-    const tasks = await this.fetchTasks({
-      ...departmentFilter,
-      date_updated_lt: cutoff,
-      include_closed: false,
-      order_by: "updated",
-    });
+    const { tasks, footer } = await this.fetchTasks(query.department);
 
     const staleTasks = tasks
       .filter((task) => {
         const updated = toMillis(task.date_updated);
-        if (!updated || updated >= cutoff) {
-          return false;
-        }
-        return isActiveStatus(getStatusName(task));
+        return updated !== null && updated < cutoff;
       })
       .sort((a, b) => (toMillis(a.date_updated) ?? 0) - (toMillis(b.date_updated) ?? 0));
 
     if (staleTasks.length === 0) {
-      return `No tasks stale for ${days} days.`;
+      return { text: `✅ Задач без оновлень ${days}+ дн. немає${scopeLabel(query)}.` + footer, hasMore: false };
     }
 
     const limit = query.limit ?? DEFAULT_TASK_LIMIT;
     const taskLines = staleTasks.slice(0, limit).map((task) => formatTask(task, this.timezone));
 
-    return [
-      `Stale tasks (${days}+ days): ${staleTasks.length}`,
-      `Tasks (first ${Math.min(limit, staleTasks.length)}):`,
+    const text = [
+      `🕒 <b>Без оновлень ${days}+ дн.${scopeLabel(query)}: ${staleTasks.length}</b>`,
+      "",
+      `<b>Задачі (перші ${Math.min(limit, staleTasks.length)}):</b>`,
       ...taskLines,
-    ]
-      .filter((line) => line.length > 0)
-      .join("\n");
+    ].join("\n") + footer;
+    return { text, hasMore: staleTasks.length > limit };
   }
 
-  async getActiveTasksReport(query: ReportQuery): Promise<string> {
-    const now = DateTime.now().setZone(this.timezone);
-    const departmentFilter = getDepartmentFilter(query.department);
-    const hasDepartmentFilter =
-      (departmentFilter.list_ids && departmentFilter.list_ids.length > 0) ||
-      (departmentFilter.space_ids && departmentFilter.space_ids.length > 0);
-
-    if (!hasDepartmentFilter) {
-      return "Department filter is required for active tasks. Please configure departments.";
+  async getActiveTasksReport(query: ReportQuery): Promise<ReportResult> {
+    if (!query.department) {
+      return { text: "Для активних задач вкажіть відділ, наприклад: /active botox", hasMore: false };
     }
 
-    const tasks = await this.fetchTasks({
-      ...departmentFilter,
-      include_closed: false,
-      order_by: "updated",
-      reverse: true,
-    });
+    const now = DateTime.now().setZone(this.timezone);
+    const { tasks, footer } = await this.fetchTasks(query.department);
 
-    const activeTasks = tasks.filter((task) => isActiveStatus(getStatusName(task)));
+    // Most recently touched first
+    const activeTasks = tasks
+      .slice()
+      .sort((a, b) => (toMillis(b.date_updated) ?? 0) - (toMillis(a.date_updated) ?? 0));
     if (activeTasks.length === 0) {
-      return "No active tasks found.";
+      return { text: `Активних задач немає${scopeLabel(query)}.` + footer, hasMore: false };
     }
 
     const limit = query.limit ?? DEFAULT_TASK_LIMIT;
     const taskLines = activeTasks.slice(0, limit).map((task) => formatTask(task, this.timezone));
 
-    return [
-      `Active tasks (${now.toFormat("dd.MM")}): ${activeTasks.length}`,
-      `Tasks (first ${Math.min(limit, activeTasks.length)}):`,
+    const text = [
+      `🟢 <b>Активні задачі${scopeLabel(query)} (${now.toFormat("dd.MM")}): ${activeTasks.length}</b>`,
+      "",
+      `<b>Задачі (перші ${Math.min(limit, activeTasks.length)}):</b>`,
       ...taskLines,
-    ]
-      .filter((line) => line.length > 0)
-      .join("\n");
+    ].join("\n") + footer;
+    return { text, hasMore: activeTasks.length > limit };
   }
 
-  async runReport(query: ReportQuery): Promise<string> {
+  async runReport(query: ReportQuery): Promise<ReportResult> {
     const department = normalizeDepartmentKey(query.department) ?? query.department;
     const normalized: ReportQuery = { ...query, department };
 
@@ -351,7 +249,7 @@ export class ReportService {
       case "active_tasks":
         return this.getActiveTasksReport(normalized);
       default:
-        return "Unsupported report type.";
+        return { text: "Невідомий тип звіту.", hasMore: false };
     }
   }
 }
@@ -1,4 +1,6 @@
-export type ReportType = "overdue" | "not_updated_today" | "stale_n_days" | "active_tasks";
+export const REPORT_TYPES = ["overdue", "not_updated_today", "stale_n_days", "active_tasks"] as const;
+
+export type ReportType = (typeof REPORT_TYPES)[number];
 
 export type ReportQuery = {
   type: ReportType;
@@ -7,22 +9,7 @@ export type ReportQuery = {
   limit?: number;
 };
 
-export type ClickUpAssignee = {
-  id?: number;
-  username?: string;
-  email?: string;
-  name?: string;
-};
-
-export type ClickUpTask = {
-  id?: string;
-  name?: string;
-  url?: string;
-  status?: { status?: string } | string;
-  assignees?: ClickUpAssignee[];
-  due_date?: string | number | null;
-  date_updated?: string | number | null;
-  priority?: { priority?: string } | number | null;
-  list?: { id?: string; name?: string };
-  list_id?: string;
+export type ReportResult = {
+  text: string;      // Telegram HTML
+  hasMore: boolean;  // More tasks than `limit` - a bigger limit shows them
 };
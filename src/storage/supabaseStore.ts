@@ -1,7 +1,7 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
 import { config } from "../config/config";
-import { ReportType } from "../reports/types";
-import { ConversationStore, SessionState, StoredMessage } from "./types";
+import { REPORT_TYPES, ReportType } from "../reports/types";
+import { AuditEntry, ConversationStore, SessionState, StoredMessage, StoredTaskList } from "./types";
 import { logger } from "../utils/logger";
 
 type MessageRow = {
@@ -12,6 +12,15 @@ type MessageRow = {
   created_at: string;
 };
 
+// Older paged lists of a user are dropped - nobody pages back through yesterday's answers
+const TASK_LISTS_PER_USER = 20;
+
+type TaskListRow = {
+  id: string;
+  user_id: number;
+  pages: StoredTaskList["pages"];
+};
+
 type StateRow = {
   user_id: number;
   department: string | null;
@@ -136,6 +145,92 @@ export class SupabaseStore implements ConversationStore {
     };
   }
 
+  async saveAuditEntry(entry: AuditEntry): Promise<void> {
+    logger.info("store_save_audit_entry", { userId: entry.userId, action: entry.action, taskId: entry.taskId });
+    const { error } = await this.client
+      .from("task_audit_log")
+      .insert({
+        user_id: entry.userId,
+        user_name: entry.userName ?? null,
+        action: entry.action,
+        task_id: entry.taskId,
+        task_name: entry.taskName,
+        before: entry.before ?? null,
+        after: entry.after ?? null,
+      });
+
+    if (error) {
+      logger.error("store_save_audit_entry_failed", { userId: entry.userId, message: error.message });
+      throw new Error(`Supabase saveAuditEntry error: ${error.message}`);
+    }
+  }
+
+  async saveTaskList(list: StoredTaskList): Promise<void> {
+    logger.info("store_save_task_list", { userId: list.userId, id: list.id, pages: list.pages.length });
+    const { error } = await this.client
+      .from("task_list_pages")
+      .insert({ id: list.id, user_id: list.userId, pages: list.pages });
+
+    if (error) {
+      logger.error("store_save_task_list_failed", { userId: list.userId, message: error.message });
+      throw new Error(`Supabase saveTaskList error: ${error.message}`);
+    }
+
+    await this.trimTaskLists(list.userId, TASK_LISTS_PER_USER);
+  }
+
+  async getTaskList(userId: number, id: string): Promise<StoredTaskList | null> {
+    logger.info("store_get_task_list", { userId, id });
+    const { data, error } = await this.client
+      .from("task_list_pages")
+      .select("id, user_id, pages")
+      .eq("id", id)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error("store_get_task_list_failed", { userId, message: error.message });
+      throw new Error(`Supabase getTaskList error: ${error.message}`);
+    }
+
+    const row = data as TaskListRow | null;
+    return row ? { id: row.id, userId: row.user_id, pages: row.pages } : null;
+  }
+
+  /**
+   * Best effort: the list is already saved, so a failed cleanup is only logged
+   */
+  private async trimTaskLists(userId: number, limit: number): Promise<void> {
+    const { data, error } = await this.client
+      .from("task_list_pages")
+      .select("id")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .range(limit, limit + 500);
+
+    if (error) {
+      logger.error("store_trim_task_lists_failed", { userId, message: error.message });
+      return;
+    }
+
+    const rows = (data ?? []) as Array<{ id: string }>;
+    if (rows.length === 0) {
+      return;
+    }
+
+    const { error: deleteError } = await this.client
+      .from("task_list_pages")
+      .delete()
+      .in(
+        "id",
+        rows.map((row) => row.id)
+      );
+
+    if (deleteError) {
+      logger.error("store_trim_task_lists_delete_failed", { userId, message: deleteError.message });
+    }
+  }
+
   private async trimMessages(userId: number, limit: number): Promise<void> {
     const { data, error } = await this.client
       .from("chat_messages")
@@ -172,8 +267,8 @@ export class SupabaseStore implements ConversationStore {
     if (!value) {
       return undefined;
     }
-    if (value === "overdue" || value === "not_updated_today" || value === "stale_n_days") {
-      return value;
+    if ((REPORT_TYPES as readonly string[]).includes(value)) {
+      return value as ReportType;
     }
     return undefined;
   }
@@ -1,3 +1,4 @@
+import { AgentReply } from "../agent/types";
 import { ReportType } from "../reports/types";
 
 export type SessionState = {
@@ -14,9 +15,36 @@ export type StoredMessage = {
   createdAt?: string;
 };
 
+export type AuditAction = "create_task" | "update_status" | "update_due_date" | "reassign" | "add_comment";
+
+/**
+ * Who changed what in ClickUp from Telegram
+ */
+export type AuditEntry = {
+  userId: number;
+  userName?: string;
+  action: AuditAction;
+  taskId: string;
+  taskName: string;
+  before?: unknown;
+  after?: unknown;
+};
+
+/**
+ * A long task list split into rendered pages, so ◀ ▶ work after a restart
+ */
+export type StoredTaskList = {
+  id: string;
+  userId: number;
+  pages: AgentReply[];
+};
+
 export interface ConversationStore {
   getRecentMessages(userId: number, limit: number): Promise<StoredMessage[]>;
   saveMessage(userId: number, role: StoredMessage["role"], content: string): Promise<void>;
   getState(userId: number): Promise<SessionState>;
   updateState(userId: number, next: SessionState): Promise<SessionState>;
+  saveAuditEntry(entry: AuditEntry): Promise<void>;
+  saveTaskList(list: StoredTaskList): Promise<void>;
+  getTaskList(userId: number, id: string): Promise<StoredTaskList | null>;
 }
@@ -0,0 +1,39 @@
+import { DateTime } from "luxon";
+import { logger } from "./logger";
+
+/**
+ * Run `fn` every working day (Mon–Fri) at `time` ("HH:mm") in the given timezone.
+ * Each run schedules the next one, so DST changes don't shift the hour.
+ * Returns a function that cancels the schedule.
+ */
+export const scheduleWeekdays = (time: string, timezone: string, fn: () => Promise<void>): (() => void) => {
+  const [hour, minute] = time.split(":").map(Number);
+  let timer: NodeJS.Timeout | null = null;
+  let cancelled = false;
+
+  const nextRun = (): DateTime => {
+    const now = DateTime.now().setZone(timezone);
+    let run = now.set({ hour, minute, second: 0, millisecond: 0 });
+    while (run <= now || run.weekday > 5) {
+      run = run.plus({ days: 1 });
+    }
+    return run;
+  };
+
+  const arm = () => {
+    if (cancelled) return;
+    const delay = nextRun().toMillis() - Date.now();
+    timer = setTimeout(() => {
+      fn()
+        .catch((error) => logger.error("scheduled_job_failed", { error: String(error) }))
+        .finally(arm);
+    }, delay);
+  };
+
+  arm();
+  return () => {
+    cancelled = true;
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+};
@@ -16,3 +16,28 @@ create table if not exists public.user_state (
   last_days integer,
   updated_at timestamptz not null default now()
 );
+
+create table if not exists public.task_audit_log (
+  id bigint generated by default as identity primary key,
+  user_id bigint not null,
+  user_name text,
+  action text not null check (action in ('create_task', 'update_status', 'update_due_date', 'reassign', 'add_comment')),
+  task_id text not null,
+  task_name text not null,
+  before jsonb,
+  after jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists task_audit_log_task_id_created_at_idx
+  on public.task_audit_log (task_id, created_at desc);
+
+create table if not exists public.task_list_pages (
+  id text primary key,
+  user_id bigint not null,
+  pages jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists task_list_pages_user_id_created_at_idx
+  on public.task_list_pages (user_id, created_at desc);